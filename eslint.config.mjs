@@ -1,12 +1,14 @@
 import { fileURLToPath, URL } from "node:url";
 
 import { includeIgnoreFile } from "@eslint/compat";
-import { defineConfig } from "eslint/config";
+import { defineConfig, globalIgnores } from "eslint/config";
 import importPlugin from "eslint-plugin-import";
 import tseslint from "typescript-eslint";
 
 export default defineConfig(
 	includeIgnoreFile(fileURLToPath(new URL(".gitignore", import.meta.url))),
+	// Webview bundles, see `vite.config.ts` and `vite.log-viewer.config.ts`.
+	globalIgnores(["resources/*/dist/"]),
 	{
 		rules: {
 			"object-shorthand": ["error", "always"],
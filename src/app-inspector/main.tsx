@@ -77,19 +77,22 @@ declare global {
 			source: "vscode";
 			ideVersion: string;
 			extensionVersion: string;
+			localstackEndpoint?: string;
 		} | null;
 	}
 }
 
 const APPINSPECTOR_ROUTE_PREFIX = "/appinspector";
 
-const deploymentContainer: DeploymentContainer =
+const { localstackEndpoint = "http://localhost:4566", ...appInspectorContext } =
 	window.__APP_INSPECTOR_CONTEXT__ ?? {
 		source: "vscode",
 		ideVersion: "unknown",
 		extensionVersion: "unknown",
 	};
 
+const deploymentContainer: DeploymentContainer = appInspectorContext;
+
 render(
 	<StrictMode>
 		<div style={{ display: "flex", flexDirection: "column", height: "100%" }}>
@@ -110,7 +113,7 @@ render(
 						linkComponent={(props) => (
 							<Link to={props.to}>{props.children}</Link>
 						)}
-						localstackEndpoint="http://localhost:4566"
+						localstackEndpoint={localstackEndpoint}
 						routePrefix={APPINSPECTOR_ROUTE_PREFIX}
 					>
 						<HashRouter basename="/">
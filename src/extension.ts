@@ -4,13 +4,23 @@ import type { ExtensionContext } from "vscode";
 
 import appInspectorWebview from "./plugins/app-inspector-webview.ts";
 import configureAws from "./plugins/configure-aws.ts";
+import diagnostics from "./plugins/diagnostics.ts";
+import image from "./plugins/image.ts";
+import instances from "./plugins/instances.ts";
+import lambdaSources from "./plugins/lambda-sources.ts";
+import lifecycle from "./plugins/lifecycle.ts";
+import logFiles from "./plugins/log-files.ts";
+import logViewer from "./plugins/log-viewer.ts";
 import logs from "./plugins/logs.ts";
 import manage from "./plugins/manage.ts";
+import requests from "./plugins/requests.ts";
+import resourceUsage from "./plugins/resource-usage.ts";
 import setup from "./plugins/setup.ts";
 import statusBar from "./plugins/status-bar.ts";
+import terminal from "./plugins/terminal.ts";
 import { PluginManager } from "./plugins.ts";
-import { createContainerStatusTracker } from "./utils/container-status.ts";
-import { createLocalStackStatusTracker } from "./utils/localstack-status.ts";
+import { createInstanceRegistry } from "./utils/instance-registry.ts";
+import { createLocalStackLogsTracker } from "./utils/localstack-logs.ts";
 import { getOrCreateExtensionSessionId } from "./utils/manage.ts";
 import { createSetupStatusTracker } from "./utils/setup-status.ts";
 import { createTelemetry } from "./utils/telemetry.ts";
@@ -20,22 +30,41 @@ const plugins = new PluginManager([
 	setup,
 	configureAws,
 	manage,
+	image,
 	statusBar,
 	logs,
+	logFiles,
+	logViewer,
+	instances,
+	requests,
+	lambdaSources,
+	diagnostics,
+	lifecycle,
+	resourceUsage,
+	terminal,
 	appInspectorWebview,
 ]);
 
 export async function activate(context: ExtensionContext) {
-	const outputChannel = window.createOutputChannel("LocalStack", {
+	const outputChannel = window.createOutputChannel("LocalStack Toolkit", {
 		log: true,
 	});
 	context.subscriptions.push(outputChannel);
 
+	const emulatorOutputChannel = window.createOutputChannel(
+		"LocalStack Emulator",
+		{ log: true },
+	);
+	context.subscriptions.push(emulatorOutputChannel);
+
 	const timeTracker = createTimeTracker({ outputChannel });
 
 	const {
+		instanceRegistry,
 		containerStatusTracker,
 		localStackStatusTracker,
+		localStackLogsTracker,
+		resourceUsageTracker,
 		setupStatusTracker,
 		statusBarItem,
 		telemetry,
@@ -48,19 +77,25 @@ export async function activate(context: ExtensionContext) {
 		statusBarItem.text = "$(loading~spin) LocalStack";
 		statusBarItem.show();
 
-		const containerStatusTracker = await createContainerStatusTracker(
-			"localstack-main",
+		const instanceRegistry = await createInstanceRegistry(
 			outputChannel,
 			timeTracker,
 		);
-		context.subscriptions.push(containerStatusTracker);
+		context.subscriptions.push(instanceRegistry);
 
-		const localStackStatusTracker = createLocalStackStatusTracker(
+		const {
+			instance,
 			containerStatusTracker,
+			localStackStatusTracker,
+			resourceUsageTracker,
+		} = instanceRegistry.defaultInstance();
+
+		const localStackLogsTracker = createLocalStackLogsTracker(
+			containerStatusTracker,
+			instance.containerName,
 			outputChannel,
-			timeTracker,
 		);
-		context.subscriptions.push(localStackStatusTracker);
+		context.subscriptions.push(localStackLogsTracker);
 
 		outputChannel.trace(`[setup-status]: Starting...`);
 		const startStatusTracker = Date.now();
@@ -90,8 +125,11 @@ export async function activate(context: ExtensionContext) {
 
 		return {
 			statusBarItem,
+			instanceRegistry,
 			containerStatusTracker,
 			localStackStatusTracker,
+			localStackLogsTracker,
+			resourceUsageTracker,
 			setupStatusTracker,
 			telemetry,
 		};
@@ -101,9 +139,13 @@ export async function activate(context: ExtensionContext) {
 		await plugins.activate({
 			context,
 			outputChannel,
+			emulatorOutputChannel,
 			statusBarItem,
+			instanceRegistry,
 			containerStatusTracker,
 			localStackStatusTracker,
+			localStackLogsTracker,
+			resourceUsageTracker,
 			setupStatusTracker,
 			telemetry,
 			timeTracker,
@@ -0,0 +1,378 @@
+import {
+	StrictMode,
+	useCallback,
+	useEffect,
+	useLayoutEffect,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+import type { KeyboardEvent, MouseEvent } from "react";
+import { render } from "react-dom";
+
+import { findStackFrames } from "../utils/stack-traces.ts";
+
+import type {
+	ExtensionMessage,
+	LogViewerEntry,
+	WebviewMessage,
+} from "./messages.ts";
+
+/* Provided by VS Code to webviews. */
+declare global {
+	function acquireVsCodeApi(): {
+		postMessage(message: WebviewMessage): void;
+	};
+}
+
+const vscode = acquireVsCodeApi();
+
+const LEVELS = ["ERROR", "WARN", "INFO", "DEBUG", "TRACE"];
+
+/**
+ * Must match the `.row` height in `index.html`.
+ */
+const ROW_HEIGHT = 22;
+
+/**
+ * Rows rendered above and below the visible ones, so that scrolling doesn't flicker.
+ */
+const OVERSCAN = 20;
+
+const MAX_ENTRIES = 10_000;
+
+interface Filters {
+	levels: string[];
+	/**
+	 * Matches the service, or the beginning of the logger name.
+	 */
+	source: string;
+	text: string;
+}
+
+function matchesFilters(entry: LogViewerEntry, filters: Filters): boolean {
+	if (entry.level && !filters.levels.includes(entry.level)) {
+		return false;
+	}
+	const source = filters.source.trim();
+	if (source && entry.service !== source && !entry.logger?.startsWith(source)) {
+		return false;
+	}
+	const text = filters.text.trim().toLowerCase();
+	return !text || entry.text.toLowerCase().includes(text);
+}
+
+/**
+ * Renders the stack frames of the message as links to the workspace files.
+ */
+const LogMessage = ({ message }: { message: string }) => {
+	const parts: (string | JSX.Element)[] = [];
+	let offset = 0;
+	for (const { path, line, column, start, end } of findStackFrames(message)) {
+		parts.push(
+			message.slice(offset, start),
+			<button
+				key={start}
+				type="button"
+				className="source-link"
+				title="Open in the workspace"
+				data-path={path}
+				data-line={line}
+				data-column={column}
+			>
+				{message.slice(start, end)}
+			</button>,
+		);
+		offset = end;
+	}
+	parts.push(message.slice(offset));
+	return <span className="message">{parts}</span>;
+};
+
+function useLogEntries(): LogViewerEntry[] {
+	const [entries, setEntries] = useState<LogViewerEntry[]>([]);
+
+	useEffect(() => {
+		const listener = (event: MessageEvent<ExtensionMessage>) => {
+			const message = event.data;
+			switch (message.type) {
+				case "reset": {
+					setEntries(message.entries);
+					break;
+				}
+				case "append": {
+					setEntries((previous) =>
+						[...previous, ...message.entries].slice(-MAX_ENTRIES),
+					);
+					break;
+				}
+			}
+		};
+		window.addEventListener("message", listener);
+		vscode.postMessage({ type: "ready" });
+		return () => window.removeEventListener("message", listener);
+	}, []);
+
+	return entries;
+}
+
+function useViewportHeight(element: HTMLElement | null): number {
+	const [height, setHeight] = useState(0);
+	useEffect(() => {
+		if (!element) {
+			return;
+		}
+		const observer = new ResizeObserver(() => {
+			setHeight(element.clientHeight);
+		});
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [element]);
+	return height;
+}
+
+const LogViewer = () => {
+	const entries = useLogEntries();
+	const [filters, setFilters] = useState<Filters>({
+		levels: ["ERROR", "WARN", "INFO"],
+		source: "",
+		text: "",
+	});
+	const [pausedAtId, setPausedAtId] = useState<number>();
+	const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+	const [anchorId, setAnchorId] = useState<number>();
+
+	const [viewport, setViewport] = useState<HTMLDivElement | null>(null);
+	const viewportHeight = useViewportHeight(viewport);
+	const [scrollTop, setScrollTop] = useState(0);
+	const isAtBottom = useRef(true);
+
+	const sources = useMemo(() => {
+		const values = new Set<string>();
+		for (const { service, logger } of entries) {
+			if (service) values.add(service);
+			if (logger) values.add(logger);
+		}
+		return [...values].sort();
+	}, [entries]);
+
+	const visibleEntries = useMemo(
+		() =>
+			entries.filter(
+				(entry) =>
+					(pausedAtId === undefined || entry.id <= pausedAtId) &&
+					matchesFilters(entry, filters),
+			),
+		[entries, filters, pausedAtId],
+	);
+
+	// Follows new lines while scrolled to the bottom.
+	const rowCount = visibleEntries.length;
+	useLayoutEffect(() => {
+		if (viewport && isAtBottom.current && rowCount > 0) {
+			viewport.scrollTop = viewport.scrollHeight;
+		}
+	}, [viewport, rowCount]);
+
+	const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+	const lastRow = Math.min(
+		visibleEntries.length,
+		Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN,
+	);
+
+	const selectRow = useCallback(
+		(event: MouseEvent) => {
+			const row = (event.target as HTMLElement).closest<HTMLElement>(".row");
+			const entry = visibleEntries.find(
+				({ id }) => String(id) === row?.dataset.id,
+			);
+			if (!entry) {
+				return;
+			}
+
+			if (event.shiftKey && anchorId !== undefined) {
+				const anchorIndex = visibleEntries.findIndex(
+					({ id }) => id === anchorId,
+				);
+				const index = visibleEntries.indexOf(entry);
+				const [start, end] =
+					anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+				setSelectedIds(
+					new Set(visibleEntries.slice(start, end + 1).map(({ id }) => id)),
+				);
+				return;
+			}
+
+			setAnchorId(entry.id);
+			if (event.ctrlKey || event.metaKey) {
+				setSelectedIds((previous) => {
+					const next = new Set(previous);
+					if (!next.delete(entry.id)) {
+						next.add(entry.id);
+					}
+					return next;
+				});
+			} else {
+				setSelectedIds(new Set([entry.id]));
+			}
+		},
+		[anchorId, visibleEntries],
+	);
+
+	const copySelection = useCallback(() => {
+		const text = entries
+			.filter(({ id }) => selectedIds.has(id))
+			.map((entry) => entry.text)
+			.join("\n");
+		if (text) {
+			vscode.postMessage({ type: "copy", text });
+		}
+	}, [entries, selectedIds]);
+
+	const onKeyDown = (event: KeyboardEvent) => {
+		if ((event.ctrlKey || event.metaKey) && event.key === "c") {
+			event.preventDefault();
+			copySelection();
+		} else if ((event.ctrlKey || event.metaKey) && event.key === "a") {
+			event.preventDefault();
+			setSelectedIds(new Set(visibleEntries.map(({ id }) => id)));
+		}
+	};
+
+	const toggleLevel = (level: string) => {
+		setFilters((previous) => ({
+			...previous,
+			levels: previous.levels.includes(level)
+				? previous.levels.filter((existing) => existing !== level)
+				: [...previous.levels, level],
+		}));
+	};
+
+	const togglePause = () => {
+		if (pausedAtId === undefined) {
+			setPausedAtId(entries.at(-1)?.id ?? -1);
+		} else {
+			setPausedAtId(undefined);
+			isAtBottom.current = true;
+		}
+	};
+
+	return (
+		<>
+			<div className="toolbar">
+				{LEVELS.map((level) => (
+					<label key={level} className={`level level-${level}`}>
+						<input
+							type="checkbox"
+							checked={filters.levels.includes(level)}
+							onChange={() => toggleLevel(level)}
+						/>
+						{level}
+					</label>
+				))}
+				<input
+					type="text"
+					list="sources"
+					placeholder="Service or logger"
+					value={filters.source}
+					onChange={(event) =>
+						setFilters({ ...filters, source: event.target.value })
+					}
+				/>
+				<datalist id="sources">
+					{sources.map((source) => (
+						<option key={source} value={source} />
+					))}
+				</datalist>
+				<input
+					type="search"
+					className="search"
+					placeholder="Filter"
+					value={filters.text}
+					onChange={(event) =>
+						setFilters({ ...filters, text: event.target.value })
+					}
+				/>
+				<button type="button" onClick={togglePause}>
+					{pausedAtId === undefined ? "Pause" : "Resume"}
+				</button>
+				<button
+					type="button"
+					disabled={selectedIds.size === 0}
+					onClick={copySelection}
+				>
+					Copy
+				</button>
+				<span className="count">
+					{visibleEntries.length} of {entries.length} lines
+					{pausedAtId === undefined ? "" : " (paused)"}
+				</span>
+			</div>
+			<div
+				className="viewport"
+				ref={setViewport}
+				role="listbox"
+				aria-multiselectable
+				tabIndex={0}
+				onClick={(event) => {
+					const link = (event.target as HTMLElement).closest<HTMLElement>(
+						"[data-path]",
+					);
+					if (!link) {
+						selectRow(event);
+						return;
+					}
+					event.preventDefault();
+					vscode.postMessage({
+						type: "openSource",
+						path: link.dataset.path ?? "",
+						line: Number(link.dataset.line),
+						column: link.dataset.column
+							? Number(link.dataset.column)
+							: undefined,
+					});
+				}}
+				onKeyDown={onKeyDown}
+				onScroll={(event) => {
+					const element = event.currentTarget;
+					setScrollTop(element.scrollTop);
+					isAtBottom.current =
+						element.scrollHeight - element.scrollTop - element.clientHeight <
+						ROW_HEIGHT;
+				}}
+			>
+				<div style={{ height: visibleEntries.length * ROW_HEIGHT }}>
+					{visibleEntries.slice(firstRow, lastRow).map((entry, index) => (
+						<div
+							key={entry.id}
+							role="option"
+							tabIndex={-1}
+							aria-selected={selectedIds.has(entry.id)}
+							data-id={entry.id}
+							className={`row${selectedIds.has(entry.id) ? " selected" : ""}`}
+							style={{ top: (firstRow + index) * ROW_HEIGHT }}
+							title={entry.text}
+						>
+							<span className="timestamp">
+								{entry.timestamp?.slice(11) ?? ""}
+							</span>
+							<span className={`level level-${entry.level ?? ""}`}>
+								{entry.level ?? ""}
+							</span>
+							<span className="service">{entry.service ?? ""}</span>
+							<span className="logger">{entry.logger ?? ""}</span>
+							<LogMessage message={entry.message} />
+						</div>
+					))}
+				</div>
+			</div>
+		</>
+	);
+};
+
+render(
+	<StrictMode>
+		<LogViewer />
+	</StrictMode>,
+	document.querySelector("#root"),
+);
@@ -0,0 +1,28 @@
+import type { LogEntry } from "../utils/localstack-logs.ts";
+
+/**
+ * A log line shown in the log viewer.
+ */
+export interface LogViewerEntry extends LogEntry {
+	id: number;
+	/**
+	 * The raw line, copied when rows are selected.
+	 */
+	text: string;
+	stream: "stdout" | "stderr";
+}
+
+/**
+ * Messages sent by the extension to the log viewer.
+ */
+export type ExtensionMessage =
+	| { type: "reset"; entries: LogViewerEntry[] }
+	| { type: "append"; entries: LogViewerEntry[] };
+
+/**
+ * Messages sent by the log viewer to the extension.
+ */
+export type WebviewMessage =
+	| { type: "ready" }
+	| { type: "copy"; text: string }
+	| { type: "openSource"; path: string; line: number; column?: number };
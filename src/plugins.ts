@@ -2,7 +2,10 @@ import ms from "ms";
 import type { ExtensionContext, LogOutputChannel, StatusBarItem } from "vscode";
 
 import type { ContainerStatusTracker } from "./utils/container-status.ts";
+import type { InstanceRegistry } from "./utils/instance-registry.ts";
+import type { LocalStackLogsTracker } from "./utils/localstack-logs.ts";
 import type { LocalStackStatusTracker } from "./utils/localstack-status.ts";
+import type { ResourceUsageTracker } from "./utils/resource-usage.ts";
 import type { SetupStatusTracker } from "./utils/setup-status.ts";
 import type { Telemetry } from "./utils/telemetry.ts";
 import type { TimeTracker } from "./utils/time-tracker.ts";
@@ -11,10 +14,20 @@ export type Deactivate = () => Promise<void> | void;
 
 export interface PluginOptions {
 	context: ExtensionContext;
+	/**
+	 * Logs of the extension itself.
+	 */
 	outputChannel: LogOutputChannel;
+	/**
+	 * Logs of the LocalStack container.
+	 */
+	emulatorOutputChannel: LogOutputChannel;
 	statusBarItem: StatusBarItem;
+	instanceRegistry: InstanceRegistry;
 	containerStatusTracker: ContainerStatusTracker;
 	localStackStatusTracker: LocalStackStatusTracker;
+	localStackLogsTracker: LocalStackLogsTracker;
+	resourceUsageTracker: ResourceUsageTracker;
 	setupStatusTracker: SetupStatusTracker;
 	telemetry: Telemetry;
 	timeTracker: TimeTracker;
@@ -1,4 +1,4 @@
-import { commands } from "vscode";
+import { commands, workspace } from "vscode";
 
 import { createPlugin } from "../plugins.ts";
 import { configureAwsProfiles } from "../utils/configure-aws.ts";
@@ -15,5 +15,18 @@ export default createPlugin(
 				});
 			}),
 		);
+
+		context.subscriptions.push(
+			workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("localstack.endpoint")) {
+					// Offers to update the profile if it no longer matches the endpoint,
+					// since it lives in the global AWS files used outside of the workspace.
+					void configureAwsProfiles({
+						skipIfMissing: true,
+						outputChannel,
+					});
+				}
+			}),
+		);
 	},
 );
@@ -0,0 +1,91 @@
+import path from "node:path";
+
+import { commands, ProgressLocation, Uri, window, workspace } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import { collectDiagnostics, writeDiagnostics } from "../utils/diagnostics.ts";
+import { resolveCommandInstance } from "../utils/instance-registry.ts";
+
+/**
+ * Returns the folder the diagnostics are exported to, e.g. `localstack-diagnostics-20250101-120000`
+ * in the workspace, asking for a parent folder when no workspace is open.
+ */
+async function pickDiagnosticsDirectory(): Promise<string | undefined> {
+	let parent = workspace.workspaceFolders?.[0]?.uri.fsPath;
+	if (!parent) {
+		const [folder] =
+			(await window.showOpenDialog({
+				canSelectFiles: false,
+				canSelectFolders: true,
+				openLabel: "Export Here",
+			})) ?? [];
+		parent = folder?.fsPath;
+	}
+	if (!parent) {
+		return;
+	}
+
+	const timestamp = new Date()
+		.toISOString()
+		.slice(0, 19)
+		.replaceAll(/[-:]/g, "")
+		.replace("T", "-");
+	return path.join(parent, `localstack-diagnostics-${timestamp}`);
+}
+
+export default createPlugin(
+	"diagnostics",
+	({ context, outputChannel, instanceRegistry }) => {
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.exportDiagnostics",
+				async (arg?: unknown) => {
+					const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+					if (!trackedInstance) {
+						return;
+					}
+					const { instance } = trackedInstance;
+					const directory = await pickDiagnosticsDirectory();
+					if (!directory) {
+						return;
+					}
+
+					try {
+						await window.withProgress(
+							{
+								location: ProgressLocation.Notification,
+								title: "Exporting LocalStack diagnostics...",
+							},
+							async () => {
+								const files = await collectDiagnostics({
+									instance,
+									logUri: context.logUri,
+									outputChannel,
+								});
+								await writeDiagnostics(directory, files);
+							},
+						);
+					} catch (error) {
+						outputChannel.error(`[diagnostics]: ${String(error)}`);
+						void window.showErrorMessage(
+							`Failed to export the LocalStack diagnostics: ${String(error)}`,
+						);
+						return;
+					}
+
+					outputChannel.info(`[diagnostics]: Exported to ${directory}`);
+					const selection = await window.showInformationMessage(
+						`LocalStack diagnostics exported to ${path.basename(directory)}. Secrets are redacted, but review the files before sharing them.`,
+						"Reveal in Explorer",
+					);
+					if (selection === "Reveal in Explorer") {
+						await commands.executeCommand(
+							"revealFileInOS",
+							Uri.file(directory),
+						);
+					}
+				},
+			),
+		);
+	},
+);
@@ -0,0 +1,111 @@
+import { commands, ProgressLocation, window } from "vscode";
+import type { LogOutputChannel } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import {
+	checkImageUpdate,
+	getDockerImageSemverVersion,
+	getLocalStackImage,
+	pullDockerImage,
+} from "../utils/image.ts";
+import type { LocalStackStatusTracker } from "../utils/localstack-status.ts";
+
+export default createPlugin(
+	"image",
+	({ context, outputChannel, localStackStatusTracker }) => {
+		context.subscriptions.push(
+			commands.registerCommand("localstack.checkImageUpdates", async () => {
+				const image = getLocalStackImage();
+				const update = await window.withProgress(
+					{
+						location: ProgressLocation.Notification,
+						title: `Checking for updates of ${image}...`,
+					},
+					() => checkImageUpdate(outputChannel),
+				);
+
+				switch (update.status) {
+					case "up-to-date": {
+						void window.showInformationMessage(
+							`The LocalStack image ${image} is up to date (version ${update.version ?? "unknown"}).`,
+						);
+						return;
+					}
+					case "missing": {
+						const selection = await window.showInformationMessage(
+							`The LocalStack image ${image} has not been pulled yet.`,
+							"Pull",
+						);
+						if (selection === "Pull") {
+							await pullImage(outputChannel, localStackStatusTracker);
+						}
+						return;
+					}
+					case "outdated": {
+						const selection = await window.showInformationMessage(
+							`A new version of the LocalStack image ${image} is available (current version ${update.version ?? "unknown"}).`,
+							"Pull",
+						);
+						if (selection === "Pull") {
+							await pullImage(outputChannel, localStackStatusTracker);
+						}
+						return;
+					}
+					case "unknown": {
+						const selection = await window.showWarningMessage(
+							`Could not check for updates of the LocalStack image ${image} (current version ${update.version ?? "unknown"}).`,
+							"Pull Anyway",
+						);
+						if (selection === "Pull Anyway") {
+							await pullImage(outputChannel, localStackStatusTracker);
+						}
+						return;
+					}
+				}
+			}),
+		);
+	},
+);
+
+async function pullImage(
+	outputChannel: LogOutputChannel,
+	localStackStatusTracker: LocalStackStatusTracker,
+) {
+	const image = getLocalStackImage();
+	const pulled = await window.withProgress(
+		{
+			location: ProgressLocation.Notification,
+			title: `Pulling ${image}`,
+			cancellable: true,
+		},
+		(progress, cancellationToken) => {
+			progress.report({ message: "Downloading the image layers..." });
+			return pullDockerImage(outputChannel, cancellationToken);
+		},
+	);
+	if (!pulled) {
+		const selection = await window.showErrorMessage(
+			`Failed to pull the LocalStack image ${image}.`,
+			"View Logs",
+		);
+		if (selection === "View Logs") {
+			await commands.executeCommand("localstack.viewLogs", "toolkit");
+		}
+		return;
+	}
+
+	const version = await getDockerImageSemverVersion(outputChannel);
+	const message = `Pulled the LocalStack image ${image} (version ${version ?? "unknown"}).`;
+	if (localStackStatusTracker.status() !== "running") {
+		void window.showInformationMessage(message);
+		return;
+	}
+
+	const selection = await window.showInformationMessage(
+		`${message} Restart LocalStack to use it.`,
+		"Restart",
+	);
+	if (selection === "Restart") {
+		await commands.executeCommand("localstack.restart");
+	}
+}
@@ -0,0 +1,524 @@
+import {
+	commands,
+	EventEmitter,
+	ThemeColor,
+	ThemeIcon,
+	TreeItem,
+	TreeItemCollapsibleState,
+	window,
+} from "vscode";
+import type {
+	Disposable,
+	Event,
+	ProviderResult,
+	TreeDataProvider,
+} from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import { IMAGE_REFERENCE_PATTERN } from "../utils/image.ts";
+import { resolveCommandInstance } from "../utils/instance-registry.ts";
+import type {
+	InstanceRegistry,
+	TrackedInstance,
+} from "../utils/instance-registry.ts";
+import {
+	CONTAINER_NAME_PATTERN,
+	DEFAULT_INSTANCE,
+	getDefaultInstance,
+	getInstanceServicePorts,
+	instancePortsOverlap,
+	readConfiguredInstances,
+	readEndpointConfiguration,
+	saveConfiguredInstances,
+} from "../utils/instances.ts";
+import type { LocalStackInstance } from "../utils/instances.ts";
+import type { LocalStackStatus } from "../utils/localstack-status.ts";
+import { formatByteSize } from "../utils/resource-usage.ts";
+
+export default createPlugin("instances", ({ context, instanceRegistry }) => {
+	const provider = new InstancesTreeDataProvider({ instanceRegistry });
+	context.subscriptions.push(provider);
+
+	context.subscriptions.push(
+		window.createTreeView("localstack.instances", {
+			treeDataProvider: provider,
+			showCollapseAll: false,
+		}),
+	);
+
+	context.subscriptions.push(
+		commands.registerCommand("localstack.refreshInstances", async () => {
+			await instanceRegistry.refresh();
+		}),
+	);
+
+	context.subscriptions.push(
+		commands.registerCommand("localstack.addInstance", async () => {
+			const instances = readConfiguredInstances();
+			const instance = await promptInstance(instances);
+			if (!instance) {
+				return;
+			}
+
+			await saveConfiguredInstances([...instances, instance]);
+		}),
+	);
+
+	context.subscriptions.push(
+		commands.registerCommand(
+			"localstack.editInstance",
+			async (arg?: unknown) => {
+				const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+				if (!trackedInstance) {
+					return;
+				}
+				const { instance: current } = trackedInstance;
+				if (current.name === DEFAULT_INSTANCE.name) {
+					void window.showInformationMessage(
+						"The default LocalStack instance cannot be edited.",
+					);
+					return;
+				}
+				if (current.discovered) {
+					void window.showInformationMessage(
+						`The LocalStack instance "${current.name}" was found in Docker and cannot be edited.`,
+					);
+					return;
+				}
+
+				const instances = readConfiguredInstances();
+				const instance = await promptInstance(
+					instances.filter(({ name }) => name !== current.name),
+					current,
+				);
+				if (!instance) {
+					return;
+				}
+
+				await saveConfiguredInstances(
+					instances.map((existing) =>
+						existing.name === current.name ? instance : existing,
+					),
+				);
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		commands.registerCommand(
+			"localstack.removeInstance",
+			async (arg?: unknown) => {
+				const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+				if (!trackedInstance) {
+					return;
+				}
+				const { instance: current } = trackedInstance;
+				if (current.name === DEFAULT_INSTANCE.name) {
+					void window.showInformationMessage(
+						"The default LocalStack instance cannot be removed.",
+					);
+					return;
+				}
+				if (current.discovered) {
+					void window.showInformationMessage(
+						`The LocalStack instance "${current.name}" was found in Docker and cannot be removed.`,
+					);
+					return;
+				}
+
+				const selection = await window.showWarningMessage(
+					`Remove the LocalStack instance "${current.name}"? The container "${current.containerName}" will not be stopped.`,
+					{ modal: true },
+					"Remove",
+				);
+				if (selection !== "Remove") {
+					return;
+				}
+
+				await saveConfiguredInstances(
+					readConfiguredInstances().filter(({ name }) => name !== current.name),
+				);
+			},
+		),
+	);
+});
+
+/**
+ * Gateway ports are suggested this far apart, so that the services ranges don't overlap,
+ * see {@link getInstanceServicePorts}.
+ */
+const SUGGESTED_PORT_STEP = 100;
+
+/**
+ * Returns the first port after the given instances that can run side by side with all of them.
+ */
+function suggestInstancePort(instances: LocalStackInstance[]): number {
+	let port = Math.max(...instances.map(({ port }) => port));
+	do {
+		port += SUGGESTED_PORT_STEP;
+	} while (
+		instances.some((instance) =>
+			instancePortsOverlap(instance, { ...instance, port }),
+		)
+	);
+	return port;
+}
+
+/**
+ * Asks the user for the properties of a LocalStack instance.
+ *
+ * @param otherInstances - The other user-defined instances, used to validate the name, container name and port uniqueness.
+ * @param current - The instance being edited, if any.
+ * @returns The instance, or `undefined` if the user cancelled any of the prompts.
+ */
+async function promptInstance(
+	otherInstances: LocalStackInstance[],
+	current?: LocalStackInstance,
+): Promise<LocalStackInstance | undefined> {
+	const takenNames = [
+		DEFAULT_INSTANCE.name,
+		...otherInstances.map(({ name }) => name),
+	];
+	const name = await window.showInputBox({
+		title: "LocalStack instance name",
+		value: current?.name,
+		ignoreFocusOut: true,
+		validateInput(value) {
+			if (value.trim() === "") {
+				return "The name cannot be empty.";
+			}
+			if (takenNames.includes(value.trim())) {
+				return `An instance named "${value.trim()}" already exists.`;
+			}
+		},
+	});
+	if (name === undefined) {
+		return;
+	}
+
+	const defaultInstance = getDefaultInstance();
+	const takenContainerNames = [
+		defaultInstance.containerName,
+		...otherInstances.map(({ containerName }) => containerName),
+	];
+	const containerName = await window.showInputBox({
+		title: "Docker container name",
+		value: current?.containerName ?? `localstack-${name.trim()}`,
+		ignoreFocusOut: true,
+		validateInput(value) {
+			if (!CONTAINER_NAME_PATTERN.test(value)) {
+				return "The container name may only contain letters, digits, '_', '.' and '-'.";
+			}
+			if (takenContainerNames.includes(value)) {
+				return `The container "${value}" is already used by another instance.`;
+			}
+		},
+	});
+	if (containerName === undefined) {
+		return;
+	}
+
+	const existingInstances = [defaultInstance, ...otherInstances];
+	// Lower ports would give services ports below 1.
+	const minPort =
+		DEFAULT_INSTANCE.port - getInstanceServicePorts(DEFAULT_INSTANCE).start + 1;
+	const port = await window.showInputBox({
+		title: "Edge port",
+		value: String(current?.port ?? suggestInstancePort(existingInstances)),
+		ignoreFocusOut: true,
+		validateInput(value) {
+			const port = Number(value);
+			if (!Number.isInteger(port) || port < minPort || port > 65535) {
+				return `The port must be a number between ${minPort} and 65535.`;
+			}
+			const overlapping = existingInstances.find((instance) =>
+				instancePortsOverlap(instance, { ...instance, port }),
+			);
+			if (overlapping) {
+				const { start, end } = getInstanceServicePorts({
+					...overlapping,
+					port,
+				});
+				return `The port ${port} or its services ports ${start}-${end - 1} overlap with the instance "${overlapping.name}".`;
+			}
+		},
+	});
+	if (port === undefined) {
+		return;
+	}
+
+	const image = await window.showInputBox({
+		title: "Docker image",
+		value: current?.image ?? getDefaultInstance().image,
+		ignoreFocusOut: true,
+		validateInput(value) {
+			if (value.trim() === "") {
+				return "The image cannot be empty.";
+			}
+			if (!IMAGE_REFERENCE_PATTERN.test(value.trim())) {
+				return "The image may only contain letters, digits, '_', '.', '-', '/', ':' and '@'.";
+			}
+		},
+	});
+	if (image === undefined) {
+		return;
+	}
+
+	return {
+		name: name.trim(),
+		containerName,
+		port: Number(port),
+		image: image.trim(),
+	};
+}
+
+class InstancesTreeItem extends TreeItem {
+	children?: InstancesTreeItem[];
+
+	/**
+	 * The name of the instance this item belongs to.
+	 *
+	 * Passed along to the commands invoked from the tree, see {@link InstanceRegistry.resolve}.
+	 */
+	instanceName?: string;
+}
+
+interface InstancesTreeDataProviderOptions {
+	instanceRegistry: InstanceRegistry;
+}
+
+class InstancesTreeDataProvider
+	implements TreeDataProvider<InstancesTreeItem>, Disposable
+{
+	readonly #onDidChangeTreeData = new EventEmitter<
+		// biome-ignore lint/suspicious/noConfusingVoidType: void is required by Event
+		InstancesTreeItem | undefined | void
+	>();
+
+	// biome-ignore lint/suspicious/noConfusingVoidType: void is required by Event
+	readonly onDidChangeTreeData: Event<InstancesTreeItem | undefined | void> =
+		this.#onDidChangeTreeData.event;
+
+	readonly #instanceRegistry: InstanceRegistry;
+
+	/**
+	 * The tree item of each tracked instance, along with its status subscriptions.
+	 */
+	readonly #instanceItems = new Map<
+		TrackedInstance,
+		{ item: InstancesTreeItem; subscriptions: Disposable[] }
+	>();
+
+	constructor(options: InstancesTreeDataProviderOptions) {
+		this.#instanceRegistry = options.instanceRegistry;
+
+		this.#instanceRegistry.onChange(() => {
+			const instances = this.#instanceRegistry.instances();
+			for (const tracked of this.#instanceItems.keys()) {
+				if (!instances.includes(tracked)) {
+					this.#disposeInstanceItem(tracked);
+				}
+			}
+			this.#onDidChangeTreeData.fire();
+		});
+	}
+
+	dispose() {
+		for (const tracked of this.#instanceItems.keys()) {
+			this.#disposeInstanceItem(tracked);
+		}
+		this.#onDidChangeTreeData.dispose();
+	}
+
+	getChildren(
+		element?: InstancesTreeItem,
+	): ProviderResult<InstancesTreeItem[]> {
+		if (element) {
+			return element.children;
+		}
+
+		return this.#instanceRegistry.instances().map((tracked) => {
+			const item = this.#getInstanceItem(tracked);
+			// The default instance port may change, see `localstack.endpoint.port`.
+			item.description = getInstanceDescription(tracked);
+			return item;
+		});
+	}
+
+	getTreeItem(element: InstancesTreeItem): TreeItem {
+		return element;
+	}
+
+	#getInstanceItem(tracked: TrackedInstance): InstancesTreeItem {
+		const existing = this.#instanceItems.get(tracked);
+		if (existing) {
+			return existing.item;
+		}
+
+		const {
+			instance,
+			localStackStatusTracker,
+			servicesStatusTracker,
+			resourceUsageTracker,
+		} = tracked;
+		const isDefault = instance.name === DEFAULT_INSTANCE.name;
+		const kind = isDefault
+			? "default"
+			: instance.discovered
+				? "discovered"
+				: "custom";
+
+		const instanceItem = new InstancesTreeItem(
+			instance.name,
+			TreeItemCollapsibleState.Expanded,
+		);
+		instanceItem.instanceName = instance.name;
+		instanceItem.tooltip = [
+			`Container: ${instance.containerName}`,
+			`Image: ${instance.image}`,
+			instance.compose &&
+				`Compose: ${instance.compose.project}/${instance.compose.service}`,
+		]
+			.filter(Boolean)
+			.join("\n");
+
+		const statusItem = new InstancesTreeItem(
+			"Status",
+			TreeItemCollapsibleState.Collapsed,
+		);
+		statusItem.instanceName = instance.name;
+
+		const servicesItem = new InstancesTreeItem(
+			"Services",
+			TreeItemCollapsibleState.Collapsed,
+		);
+		servicesItem.instanceName = instance.name;
+		servicesItem.description = "unavailable";
+		servicesItem.children = [];
+		statusItem.children = [servicesItem];
+
+		instanceItem.children = [statusItem];
+
+		if (isDefault) {
+			const appInspectorItem = new InstancesTreeItem(
+				"App Inspector",
+				TreeItemCollapsibleState.None,
+			);
+			appInspectorItem.description = "Click to open";
+			appInspectorItem.command = {
+				title: "Open App Inspector",
+				command: "localstack.openAppInspector",
+			};
+			instanceItem.children.push(appInspectorItem);
+		}
+
+		const subscriptions: Disposable[] = [];
+
+		subscriptions.push(
+			localStackStatusTracker.onChange((status) => {
+				statusItem.description = status;
+				this.#onDidChangeTreeData.fire(statusItem);
+
+				instanceItem.iconPath = getLocalStackStatusThemeIcon(status);
+				instanceItem.contextValue = `localstackInstance:${kind}:${status}`;
+				this.#onDidChangeTreeData.fire(instanceItem);
+			}),
+		);
+
+		subscriptions.push(
+			servicesStatusTracker.onChange((services) => {
+				const entries = Object.entries(services ?? {}).sort(([a], [b]) =>
+					a.localeCompare(b),
+				);
+				const runningCount = entries.filter(
+					([, state]) => state === "running",
+				).length;
+				servicesItem.description = services
+					? `${runningCount}/${entries.length} running`
+					: "unavailable";
+				servicesItem.children = entries.map(([service, state]) => {
+					const item = new InstancesTreeItem(
+						service,
+						TreeItemCollapsibleState.None,
+					);
+					item.instanceName = instance.name;
+					item.description = state;
+					item.iconPath = getServiceStateThemeIcon(state);
+					return item;
+				});
+				this.#onDidChangeTreeData.fire(servicesItem);
+			}),
+		);
+
+		subscriptions.push(
+			resourceUsageTracker.onChange(() => {
+				instanceItem.description = getInstanceDescription(tracked);
+				this.#onDidChangeTreeData.fire(instanceItem);
+			}),
+		);
+
+		this.#instanceItems.set(tracked, { item: instanceItem, subscriptions });
+		return instanceItem;
+	}
+
+	#disposeInstanceItem(tracked: TrackedInstance) {
+		const subscriptions = this.#instanceItems.get(tracked)?.subscriptions ?? [];
+		for (const subscription of subscriptions) {
+			subscription.dispose();
+		}
+		this.#instanceItems.delete(tracked);
+	}
+}
+
+/**
+ * Returns the endpoint of the instance, followed by its resource usage while it is running.
+ */
+function getInstanceDescription({
+	instance,
+	resourceUsageTracker,
+}: TrackedInstance): string {
+	const { host } = readEndpointConfiguration();
+	const endpoint = `${host}:${instance.port}`;
+	const usage = resourceUsageTracker.usage();
+	if (!usage) {
+		return endpoint;
+	}
+	return `${endpoint} · CPU ${usage.cpuPercent.toFixed(1)}% · ${formatByteSize(usage.memoryUsage)}`;
+}
+
+function getLocalStackStatusThemeIcon(status: LocalStackStatus): ThemeIcon {
+	switch (status) {
+		case "starting":
+			return new ThemeIcon("circle-outline");
+		case "running":
+			return new ThemeIcon("circle-filled");
+		case "stopping":
+			return new ThemeIcon(
+				"circle-filled",
+				new ThemeColor("disabledForeground"),
+			);
+		case "stopped":
+			return new ThemeIcon(
+				"circle-outline",
+				new ThemeColor("disabledForeground"),
+			);
+	}
+}
+
+function getServiceStateThemeIcon(state: string): ThemeIcon {
+	switch (state) {
+		case "running":
+			return new ThemeIcon("pass-filled", new ThemeColor("testing.iconPassed"));
+		case "available":
+			return new ThemeIcon("circle-outline");
+		case "error":
+			return new ThemeIcon("error", new ThemeColor("errorForeground"));
+		case "disabled":
+			return new ThemeIcon(
+				"circle-slash",
+				new ThemeColor("disabledForeground"),
+			);
+		default:
+			return new ThemeIcon("question");
+	}
+}
@@ -0,0 +1,193 @@
+import {
+	commands,
+	Diagnostic,
+	DiagnosticSeverity,
+	DocumentLink,
+	languages,
+	Range,
+	window,
+	workspace,
+} from "vscode";
+import type { Uri } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import { parseLogEntry } from "../utils/localstack-logs.ts";
+import { createSourcePathResolver } from "../utils/source-paths.ts";
+import type { SourcePathResolver } from "../utils/source-paths.ts";
+import {
+	createStackTraceCollector,
+	findStackFrames,
+} from "../utils/stack-traces.ts";
+import type { StackTrace } from "../utils/stack-traces.ts";
+
+/**
+ * The last lines of a stack trace may be logged a bit later.
+ */
+const FLUSH_DELAY_MS = 1_000;
+
+/**
+ * The output channels created in `extension.ts`.
+ */
+const OUTPUT_CHANNEL_NAMES = ["LocalStack Emulator", "LocalStack Toolkit"];
+
+/**
+ * Whether the document is one of the LocalStack output channels, whose URI path ends with the channel name,
+ * e.g. `extension-output-LocalStack.localstack-#2-LocalStack Emulator`.
+ */
+function isLocalStackOutputChannel(uri: Uri): boolean {
+	return OUTPUT_CHANNEL_NAMES.some((name) => uri.path.endsWith(`-${name}`));
+}
+
+/**
+ * Returns the workspace file of the innermost frame that can be found.
+ */
+async function findErrorLocation(
+	resolver: SourcePathResolver,
+	{ frames }: StackTrace,
+): Promise<{ uri: Uri; line: number; column?: number } | undefined> {
+	for (const { path, line, column } of frames) {
+		const uri = await resolver.resolve(path);
+		if (uri) {
+			return { uri, line, column };
+		}
+	}
+}
+
+export default createPlugin(
+	"lambda-sources",
+	({ context, outputChannel, localStackLogsTracker }) => {
+		const resolver = createSourcePathResolver();
+		context.subscriptions.push(resolver);
+
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.openLambdaSource",
+				async (containerPath: string, line: number, column?: number) => {
+					const uri = await resolver.resolve(containerPath);
+					if (!uri) {
+						const selection = await window.showWarningMessage(
+							`${containerPath} was not found in the workspace. Map Lambda paths to workspace folders with the "localstack.lambda.pathMappings" setting.`,
+							"Open Settings",
+						);
+						if (selection === "Open Settings") {
+							await commands.executeCommand(
+								"workbench.action.openSettings",
+								"localstack.lambda.pathMappings",
+							);
+						}
+						return;
+					}
+
+					const position = new Range(
+						line - 1,
+						(column ?? 1) - 1,
+						line - 1,
+						(column ?? 1) - 1,
+					);
+					await window.showTextDocument(uri, { selection: position });
+				},
+			),
+		);
+
+		// Makes the stack frames of the LocalStack output channels clickable.
+		context.subscriptions.push(
+			languages.registerDocumentLinkProvider(
+				{ scheme: "output" },
+				{
+					async provideDocumentLinks(document) {
+						const links: DocumentLink[] = [];
+						if (!isLocalStackOutputChannel(document.uri)) {
+							return links;
+						}
+						for (let index = 0; index < document.lineCount; index++) {
+							const { text } = document.lineAt(index);
+							for (const frame of findStackFrames(text)) {
+								const uri = await resolver.resolve(frame.path);
+								if (!uri) {
+									continue;
+								}
+								const link = new DocumentLink(
+									new Range(index, frame.start, index, frame.end),
+									uri.with({
+										fragment: frame.column
+											? `L${frame.line},${frame.column}`
+											: `L${frame.line}`,
+									}),
+								);
+								link.tooltip = `Open ${workspace.asRelativePath(uri)}`;
+								links.push(link);
+							}
+						}
+						return links;
+					},
+				},
+			),
+		);
+
+		// Shows the errors of Lambda functions in the Problems panel.
+		const diagnostics = languages.createDiagnosticCollection("localstack");
+		context.subscriptions.push(diagnostics);
+
+		const addDiagnostic = async (trace: StackTrace) => {
+			const location = await findErrorLocation(resolver, trace);
+			if (!location) {
+				return;
+			}
+
+			const { uri, line, column } = location;
+			const existing = diagnostics.get(uri) ?? [];
+			const range = new Range(
+				line - 1,
+				(column ?? 1) - 1,
+				line - 1,
+				Number.MAX_SAFE_INTEGER,
+			);
+			const message = trace.message || "Lambda function error";
+			if (
+				existing.some(
+					(diagnostic) =>
+						diagnostic.range.isEqual(range) && diagnostic.message === message,
+				)
+			) {
+				return;
+			}
+
+			const diagnostic = new Diagnostic(
+				range,
+				message,
+				DiagnosticSeverity.Error,
+			);
+			diagnostic.source = "LocalStack";
+			diagnostics.set(uri, [...existing, diagnostic]);
+			outputChannel.debug(
+				`[lambda-sources]: ${message} at ${workspace.asRelativePath(uri)}:${line}`,
+			);
+		};
+
+		const collector = createStackTraceCollector((trace) => {
+			void addDiagnostic(trace);
+		});
+
+		let flushTimeout: NodeJS.Timeout | undefined;
+		context.subscriptions.push({
+			dispose() {
+				clearTimeout(flushTimeout);
+			},
+		});
+
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text }) => {
+				collector.push(parseLogEntry(text).message);
+				clearTimeout(flushTimeout);
+				flushTimeout = setTimeout(() => collector.flush(), FLUSH_DELAY_MS);
+			}),
+		);
+
+		// The errors may be fixed once the file changes.
+		context.subscriptions.push(
+			workspace.onDidSaveTextDocument((document) => {
+				diagnostics.delete(document.uri);
+			}),
+		);
+	},
+);
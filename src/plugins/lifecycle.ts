@@ -0,0 +1,173 @@
+import { spawn } from "node:child_process";
+import path from "node:path";
+
+import { ProgressLocation, window, workspace } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "../utils/docker.ts";
+import { readLastLaunchProfile } from "../utils/launch-profiles.ts";
+import { parseAwsRequest } from "../utils/localstack-logs.ts";
+import { startLocalStack, stopLocalStack } from "../utils/manage.ts";
+import { registerWindow, unregisterWindow } from "../utils/windows.ts";
+
+const IDLE_CHECK_INTERVAL_MS = 60_000;
+
+interface LifecycleConfiguration {
+	autoStart: boolean;
+	stopOnLastWindowClose: boolean;
+	/**
+	 * In minutes, `0` disables the idle check.
+	 */
+	idleTimeout: number;
+}
+
+function readLifecycleConfiguration(): LifecycleConfiguration {
+	const config = workspace.getConfiguration("localstack");
+	return {
+		autoStart: config.get<boolean>("autoStart", false),
+		stopOnLastWindowClose: config.get<boolean>(
+			"autoStop.onLastWindowClose",
+			false,
+		),
+		idleTimeout: config.get<number>("autoStop.idleTimeout", 0),
+	};
+}
+
+export default createPlugin(
+	"lifecycle",
+	async ({
+		context,
+		outputChannel,
+		telemetry,
+		instanceRegistry,
+		localStackStatusTracker,
+		localStackLogsTracker,
+		setupStatusTracker,
+	}) => {
+		const defaultInstance = instanceRegistry.defaultInstance();
+
+		const windowsDirectory = path.join(
+			context.globalStorageUri.fsPath,
+			"windows",
+		);
+		await registerWindow(windowsDirectory);
+
+		const autoStart = async () => {
+			outputChannel.info("[lifecycle]: Starting LocalStack automatically");
+			const launchProfile = await readLastLaunchProfile(
+				context.workspaceState,
+				outputChannel,
+			);
+			localStackStatusTracker.forceContainerStatus("running");
+			try {
+				await startLocalStack(
+					defaultInstance.instance,
+					outputChannel,
+					telemetry,
+					{
+						localStackStatusTracker,
+						launchProfile,
+					},
+				);
+			} catch {
+				localStackStatusTracker.forceContainerStatus("stopped");
+			}
+		};
+
+		let isAutoStartHandled = false;
+		setupStatusTracker.onChange((status) => {
+			if (isAutoStartHandled || status !== "ok") {
+				return;
+			}
+			isAutoStartHandled = true;
+
+			if (
+				readLifecycleConfiguration().autoStart &&
+				localStackStatusTracker.status() === "stopped"
+			) {
+				void autoStart();
+			}
+		});
+
+		let lastActivity = Date.now();
+		localStackStatusTracker.onChange((status) => {
+			if (status === "running") {
+				lastActivity = Date.now();
+			}
+		});
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, historical }) => {
+				if (!historical && parseAwsRequest(text)) {
+					lastActivity = Date.now();
+				}
+			}),
+		);
+
+		const idleCheckInterval = setInterval(() => {
+			const { idleTimeout } = readLifecycleConfiguration();
+			if (
+				idleTimeout <= 0 ||
+				localStackStatusTracker.status() !== "running" ||
+				Date.now() - lastActivity < idleTimeout * 60_000
+			) {
+				return;
+			}
+
+			outputChannel.info(
+				`[lifecycle]: No AWS requests in the last ${idleTimeout} minutes, stopping the default LocalStack instance`,
+			);
+			localStackStatusTracker.forceContainerStatus("stopping");
+			void window.withProgress(
+				{
+					location: ProgressLocation.Notification,
+					title: `LocalStack has been idle for ${idleTimeout} minutes`,
+				},
+				async (progress) => {
+					const stopped = await stopLocalStack(
+						defaultInstance.instance,
+						outputChannel,
+						telemetry,
+						{ progress },
+					);
+					if (!stopped) {
+						localStackStatusTracker.forceContainerStatus("running");
+					}
+				},
+			);
+		}, IDLE_CHECK_INTERVAL_MS);
+		context.subscriptions.push({
+			dispose() {
+				clearInterval(idleCheckInterval);
+			},
+		});
+
+		return async () => {
+			const isLastWindow = await unregisterWindow(windowsDirectory);
+			if (
+				!isLastWindow ||
+				!readLifecycleConfiguration().stopOnLastWindowClose ||
+				localStackStatusTracker.status() !== "running"
+			) {
+				return;
+			}
+
+			// The extension host exits right after deactivation, so the container
+			// is stopped by a detached process that outlives it.
+			const { binary } = readContainerRuntimeConfiguration();
+			spawn(binary, ["stop", defaultInstance.instance.containerName], {
+				detached: true,
+				stdio: "ignore",
+				env: getDockerProcessEnvironment(),
+			})
+				.on("error", (error) => {
+					outputChannel.error(
+						`[lifecycle]: Failed to stop LocalStack: ${String(error)}`,
+					);
+				})
+				.unref();
+		};
+	},
+);
@@ -0,0 +1,164 @@
+import path from "node:path";
+
+import { commands, QuickPickItemKind, Uri, window } from "vscode";
+import type { ExtensionContext, QuickPickItem } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import { getInstanceEndpoint } from "../utils/instances.ts";
+import { fetchLocalStackSessionId } from "../utils/localstack-api.ts";
+import { waitForLocalStackStatus } from "../utils/localstack-status.ts";
+import {
+	createLogFileWriter,
+	listLogFiles,
+	readLogFilesConfiguration,
+} from "../utils/log-files.ts";
+import type { LogFile, LogFileWriter } from "../utils/log-files.ts";
+
+/**
+ * Lines logged before the session id is known are kept up to this limit.
+ */
+const MAX_PENDING_LINES = 10_000;
+
+function getLogFilesDirectory(context: ExtensionContext): string {
+	const { directory } = readLogFilesConfiguration();
+	return (
+		directory ||
+		path.join((context.storageUri ?? context.globalStorageUri).fsPath, "logs")
+	);
+}
+
+function formatFileSize(size: number): string {
+	return size < 1024 * 1024
+		? `${Math.ceil(size / 1024)} KB`
+		: `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function pickLogFile(directory: string): Promise<LogFile | undefined> {
+	const files = await listLogFiles(directory);
+	if (files.length === 0) {
+		void window.showInformationMessage(
+			`No LocalStack logs were saved to ${directory}. Enable the "localstack.logs.persist.enabled" setting to save them.`,
+		);
+		return;
+	}
+
+	const items: (QuickPickItem & { file?: LogFile })[] = [];
+	let sessionId: string | undefined;
+	for (const file of files) {
+		if (file.sessionId !== sessionId) {
+			sessionId = file.sessionId;
+			items.push({ label: sessionId, kind: QuickPickItemKind.Separator });
+		}
+		items.push({
+			label: path.basename(file.path),
+			description: formatFileSize(file.size),
+			detail: `Last written ${file.modifiedAt.toLocaleString()}`,
+			file,
+		});
+	}
+	const selection = await window.showQuickPick(items, {
+		placeHolder: "Select the LocalStack session logs to open",
+		matchOnDescription: true,
+	});
+	return selection?.file;
+}
+
+export default createPlugin(
+	"log-files",
+	({
+		context,
+		outputChannel,
+		instanceRegistry,
+		localStackStatusTracker,
+		localStackLogsTracker,
+	}) => {
+		context.subscriptions.push(
+			commands.registerCommand("localstack.openLogSession", async () => {
+				const file = await pickLogFile(getLogFilesDirectory(context));
+				if (file) {
+					await window.showTextDocument(Uri.file(file.path), {
+						preview: false,
+					});
+				}
+			}),
+		);
+
+		let writer: LogFileWriter | undefined;
+		let pendingLines: string[] | undefined;
+
+		/**
+		 * Lines are kept until the session id of the emulator is known, since it names the file.
+		 */
+		const startSession = async () => {
+			const lines: string[] = [];
+			pendingLines = lines;
+			// The session id is only available once LocalStack is ready.
+			await waitForLocalStackStatus(localStackStatusTracker, ["running"]);
+			if (pendingLines !== lines) {
+				// The session ended in the meantime.
+				return;
+			}
+
+			const { instance } = instanceRegistry.defaultInstance();
+			const sessionId =
+				(await fetchLocalStackSessionId(getInstanceEndpoint(instance))) ||
+				`session-${Date.now()}`;
+			if (pendingLines !== lines) {
+				// The session ended in the meantime.
+				return;
+			}
+
+			const { maxFileSize, maxFiles } = readLogFilesConfiguration();
+			const directory = getLogFilesDirectory(context);
+			outputChannel.info(
+				`[log-files]: Saving the LocalStack logs to ${path.join(directory, sessionId)}.log`,
+			);
+			writer = createLogFileWriter({
+				directory,
+				sessionId,
+				maxFileSize,
+				maxFiles,
+				outputChannel,
+			});
+			for (const line of lines) {
+				writer.append(line);
+			}
+			pendingLines = undefined;
+		};
+
+		const endSession = () => {
+			writer?.dispose();
+			writer = undefined;
+			pendingLines = undefined;
+		};
+		context.subscriptions.push({ dispose: endSession });
+
+		context.subscriptions.push(
+			localStackStatusTracker.onChange((status) => {
+				if (status === "stopped") {
+					endSession();
+				}
+			}),
+		);
+
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, historical }) => {
+				// Earlier lines would be out of order in the file.
+				if (historical || !readLogFilesConfiguration().enabled) {
+					return;
+				}
+
+				if (writer) {
+					writer.append(text);
+					return;
+				}
+				if (!pendingLines) {
+					void startSession();
+				}
+				if (pendingLines && pendingLines.length < MAX_PENDING_LINES) {
+					pendingLines.push(text);
+				}
+			}),
+		);
+	},
+);
@@ -0,0 +1,184 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { commands, env, Uri, ViewColumn, window } from "vscode";
+import type { WebviewPanel } from "vscode";
+
+import type {
+	ExtensionMessage,
+	LogViewerEntry,
+	WebviewMessage,
+} from "../log-viewer/messages.ts";
+import { createPlugin } from "../plugins.ts";
+import { parseLogEntry } from "../utils/localstack-logs.ts";
+
+/**
+ * The number of lines kept for the log viewer.
+ */
+const MAX_ENTRIES = 10_000;
+
+/**
+ * New lines are sent to the log viewer in batches, so that busy logs don't flood the webview.
+ */
+const APPEND_INTERVAL_MS = 100;
+
+export default createPlugin(
+	"log-viewer",
+	({ context, outputChannel, localStackLogsTracker }) => {
+		// Lines are kept from activation on, so that the viewer shows recent logs when opened.
+		let entries: LogViewerEntry[] = [];
+		let pendingEntries: LogViewerEntry[] = [];
+		let nextId = 0;
+		let logViewerPanel: WebviewPanel | undefined;
+		let appendTimeout: NodeJS.Timeout | undefined;
+
+		const postMessage = (message: ExtensionMessage) => {
+			void logViewerPanel?.webview.postMessage(message);
+		};
+
+		const flushPendingEntries = () => {
+			appendTimeout = undefined;
+			postMessage({ type: "append", entries: pendingEntries });
+			pendingEntries = [];
+		};
+
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, stream, historical }) => {
+				// Earlier lines would be shown after newer ones, and continue the wrong entries.
+				if (historical) {
+					return;
+				}
+
+				const parsed = parseLogEntry(text);
+				const previous = entries.at(-1);
+				const entry: LogViewerEntry = {
+					// Continuation lines, such as stack traces, are filtered with the entry they belong to.
+					...(parsed.level
+						? parsed
+						: {
+								level: previous?.level,
+								logger: previous?.logger,
+								service: previous?.service,
+								message: parsed.message,
+							}),
+					id: nextId++,
+					text,
+					stream,
+				};
+				entries.push(entry);
+				if (entries.length > MAX_ENTRIES) {
+					entries = entries.slice(-MAX_ENTRIES);
+				}
+
+				if (!logViewerPanel) {
+					return;
+				}
+				pendingEntries.push(entry);
+				appendTimeout ??= setTimeout(flushPendingEntries, APPEND_INTERVAL_MS);
+			}),
+		);
+
+		context.subscriptions.push({
+			dispose() {
+				clearTimeout(appendTimeout);
+			},
+		});
+
+		context.subscriptions.push(
+			commands.registerCommand("localstack.openLogViewer", async () => {
+				if (logViewerPanel) {
+					logViewerPanel.reveal();
+					return;
+				}
+
+				const panel = window.createWebviewPanel(
+					"localStackLogViewer",
+					"LocalStack Logs",
+					ViewColumn.Active,
+					{
+						enableScripts: true,
+						retainContextWhenHidden: true,
+					},
+				);
+				logViewerPanel = panel;
+
+				panel.onDidDispose(() => {
+					logViewerPanel = undefined;
+					clearTimeout(appendTimeout);
+					appendTimeout = undefined;
+					pendingEntries = [];
+				});
+
+				const handleMessage = async (message: WebviewMessage) => {
+					switch (message.type) {
+						case "ready": {
+							pendingEntries = [];
+							postMessage({ type: "reset", entries });
+							break;
+						}
+						case "copy": {
+							await env.clipboard.writeText(message.text);
+							window.setStatusBarMessage("Copied log lines", 2_000);
+							break;
+						}
+						case "openSource": {
+							await commands.executeCommand(
+								"localstack.openLambdaSource",
+								message.path,
+								message.line,
+								message.column,
+							);
+							break;
+						}
+					}
+				};
+
+				panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
+					try {
+						await handleMessage(message);
+					} catch (error) {
+						outputChannel.error(`[log-viewer]: ${String(error)}`);
+						void window.showErrorMessage(
+							`The LocalStack log viewer failed: ${String(error)}`,
+						);
+					}
+				});
+
+				const logViewerDist = path.resolve(
+					import.meta.dirname,
+					"../resources/log-viewer/dist",
+				);
+				let html: string;
+				try {
+					html = await readFile(
+						path.join(logViewerDist, "index.html"),
+						"utf-8",
+					);
+				} catch (error) {
+					outputChannel.error(`[log-viewer]: ${String(error)}`);
+					void window.showErrorMessage(
+						`Failed to open the LocalStack log viewer: ${String(error)}`,
+					);
+					panel.dispose();
+					return;
+				}
+				panel.webview.html = html.replaceAll(
+					/"(\/.*?\.(?:js|css))"/g,
+					(_, asset: string) => {
+						return JSON.stringify(
+							panel.webview
+								.asWebviewUri(
+									Uri.joinPath(
+										context.extensionUri,
+										"resources/log-viewer/dist",
+										asset,
+									),
+								)
+								.toString(),
+						);
+					},
+				);
+			}),
+		);
+	},
+);
@@ -1,53 +1,244 @@
-import { spawn } from "node:child_process";
-import type { ChildProcess } from "node:child_process";
-
-import { commands } from "vscode";
+import { commands, ProgressLocation, window, workspace } from "vscode";
+import type { QuickPickItem } from "vscode";
 
 import { createPlugin } from "../plugins.ts";
-import { pipeToLogOutputChannel } from "../utils/spawn.ts";
+import {
+	createErrorAlertMatcher,
+	createRateLimiter,
+	muteErrorAlertPattern,
+	readErrorAlertsConfiguration,
+} from "../utils/error-alerts.ts";
+import type { ErrorAlert } from "../utils/error-alerts.ts";
+import { appendLogLine } from "../utils/spawn.ts";
+
+interface HistoryItem extends QuickPickItem {
+	/**
+	 * `undefined` loads all logs, `0` asks for the number of minutes.
+	 */
+	minutes?: number;
+}
+
+type LogsChannel = "toolkit" | "emulator";
+
+const CHANNEL_ITEMS: (QuickPickItem & { channel: LogsChannel })[] = [
+	{
+		label: "LocalStack Emulator",
+		description: "Logs of the LocalStack container",
+		channel: "emulator",
+	},
+	{
+		label: "LocalStack Toolkit",
+		description: "Logs of the extension and the LocalStack CLI",
+		channel: "toolkit",
+	},
+];
+
+const HISTORY_ITEMS: HistoryItem[] = [
+	{ label: "All Logs" },
+	{ label: "Last 5 Minutes", minutes: 5 },
+	{ label: "Last 15 Minutes", minutes: 15 },
+	{ label: "Last Hour", minutes: 60 },
+	{ label: "Last 24 Hours", minutes: 24 * 60 },
+	{ label: "Custom...", minutes: 0 },
+];
+
+/**
+ * Asks how far back to load the logs.
+ *
+ * @returns The date to load the logs from, `null` for all logs, or `undefined` if cancelled.
+ */
+async function pickHistorySince(): Promise<Date | null | undefined> {
+	const selection = await window.showQuickPick(HISTORY_ITEMS, {
+		placeHolder: "Select the LocalStack logs to load",
+	});
+	if (!selection) {
+		return;
+	}
+	if (selection.minutes === undefined) {
+		return null;
+	}
+
+	let minutes = selection.minutes;
+	if (minutes === 0) {
+		const value = await window.showInputBox({
+			title: "Minutes of logs to load",
+			value: "30",
+			validateInput(value) {
+				const minutes = Number(value);
+				if (!Number.isInteger(minutes) || minutes < 1) {
+					return "The number of minutes must be a positive integer.";
+				}
+			},
+		});
+		if (value === undefined) {
+			return;
+		}
+		minutes = Number(value);
+	}
+	return new Date(Date.now() - minutes * 60_000);
+}
+
+/**
+ * Long messages, e.g. with a serialized request, are shortened in notifications.
+ */
+const MAX_ALERT_MESSAGE_LENGTH = 200;
+
+async function showErrorAlert(alert: ErrorAlert, suppressedCount: number) {
+	const message =
+		alert.message.length > MAX_ALERT_MESSAGE_LENGTH
+			? `${alert.message.slice(0, MAX_ALERT_MESSAGE_LENGTH)}…`
+			: alert.message;
+	const suppressed =
+		suppressedCount > 0
+			? ` (${suppressedCount} more errors were not shown)`
+			: "";
+	const selection = await window.showErrorMessage(
+		`LocalStack error: ${message}${suppressed}`,
+		"View Logs",
+		"Mute Pattern",
+	);
+	if (selection === "View Logs") {
+		await commands.executeCommand("localstack.viewLogs", "emulator");
+	} else if (selection === "Mute Pattern") {
+		// The message may contain ids and such, so the pattern can be widened before muting.
+		const pattern = await window.showInputBox({
+			title: "Mute LocalStack errors matching",
+			value: alert.pattern,
+			validateInput(value) {
+				if (value.trim() === "") {
+					return "The pattern cannot be empty.";
+				}
+				try {
+					new RegExp(value);
+				} catch {
+					return "The pattern must be a valid regular expression.";
+				}
+			},
+		});
+		if (pattern === undefined) {
+			return;
+		}
+		await muteErrorAlertPattern(pattern);
+		void window.showInformationMessage(
+			`Errors matching "${pattern}" won't raise alerts anymore. Remove the pattern from the "localstack.logs.errorAlerts.mutedPatterns" setting to undo.`,
+		);
+	}
+}
 
 export default createPlugin(
 	"logs",
-	({ context, outputChannel, containerStatusTracker }) => {
+	({
+		context,
+		outputChannel,
+		emulatorOutputChannel,
+		localStackLogsTracker,
+	}) => {
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.viewLogs",
+				async (channel?: LogsChannel) => {
+					channel ??= (
+						await window.showQuickPick(CHANNEL_ITEMS, {
+							placeHolder: "Select the logs to show",
+						})
+					)?.channel;
+					if (channel === "emulator") {
+						emulatorOutputChannel.show(true);
+					} else if (channel === "toolkit") {
+						outputChannel.show(true);
+					}
+				},
+			),
+		);
+
 		context.subscriptions.push(
-			commands.registerCommand("localstack.viewLogs", () => {
-				outputChannel.show(true);
+			commands.registerCommand("localstack.loadLogHistory", async () => {
+				const since = await pickHistorySince();
+				if (since === undefined) {
+					return;
+				}
+
+				emulatorOutputChannel.info(
+					since
+						? `[localstack.logs]: Loading logs since ${since.toISOString()}`
+						: "[localstack.logs]: Loading all logs",
+				);
+				try {
+					const count = await window.withProgress(
+						{
+							location: ProgressLocation.Notification,
+							title: "Loading LocalStack logs...",
+						},
+						() => localStackLogsTracker.loadHistory(since ?? undefined),
+					);
+					emulatorOutputChannel.info(
+						`[localstack.logs]: Loaded ${count} lines not shown before`,
+					);
+					emulatorOutputChannel.show(true);
+				} catch (error) {
+					outputChannel.error(`[localstack.logs]: ${String(error)}`);
+					void window.showErrorMessage(
+						`Failed to load the LocalStack logs: ${String(error)}`,
+					);
+				}
 			}),
 		);
 
-		let logsProcess: ChildProcess | undefined;
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, stream }) => {
+				appendLogLine(
+					emulatorOutputChannel,
+					"",
+					text,
+					stream === "stderr" ? "error" : "info",
+				);
+			}),
+		);
 
-		const startLogging = () => {
-			logsProcess?.kill();
+		// Rate limited, so that a crash loop doesn't flood the notifications.
+		const rateLimiter = createRateLimiter({
+			limit: 3,
+			intervalMs: 60_000,
+			repeatIntervalMs: 5 * 60_000,
+		});
+		let suppressedCount = 0;
 
-			const now = Math.floor(Date.now() / 1000);
-			logsProcess = spawn(
-				"docker",
-				["logs", "localstack-main", "--follow", "--since", String(now)],
-				{
-					stdio: "pipe",
-				},
-			);
-			pipeToLogOutputChannel(logsProcess, outputChannel, "[localstack.logs]: ");
+		// Read once rather than for every line, and again when the settings change.
+		const readErrorAlerts = () => {
+			const { enabled, patterns, mutedPatterns } =
+				readErrorAlertsConfiguration();
+			return {
+				enabled,
+				match: createErrorAlertMatcher(patterns, mutedPatterns),
+			};
 		};
+		let errorAlerts = readErrorAlerts();
+		context.subscriptions.push(
+			workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("localstack.logs.errorAlerts")) {
+					errorAlerts = readErrorAlerts();
+				}
+			}),
+		);
 
-		const stopLogging = () => {
-			logsProcess?.kill();
-			logsProcess = undefined;
-		};
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, historical }) => {
+				if (!errorAlerts.enabled || historical) {
+					return;
+				}
 
-		containerStatusTracker.onChange((status) => {
-			if (status === "running") {
-				startLogging();
-			} else if (status === "stopped") {
-				stopLogging();
-			}
-		});
+				const alert = errorAlerts.match(text);
+				if (!alert) {
+					return;
+				}
+				if (!rateLimiter.take(alert.message)) {
+					suppressedCount++;
+					return;
+				}
 
-		context.subscriptions.push({
-			dispose() {
-				logsProcess?.kill();
-			},
-		});
+				void showErrorAlert(alert, suppressedCount);
+				suppressedCount = 0;
+			}),
+		);
 	},
 );
@@ -1,38 +1,217 @@
-import { commands, window } from "vscode";
+import { commands, ProgressLocation, window } from "vscode";
+import type { LogOutputChannel, Memento, QuickPickItem } from "vscode";
 
 import { createPlugin } from "../plugins.ts";
+import { resolveCommandInstance } from "../utils/instance-registry.ts";
+import {
+	getInstanceServicePorts,
+	saveInstancePort,
+} from "../utils/instances.ts";
+import type { LocalStackInstance } from "../utils/instances.ts";
+import {
+	getLaunchProfileEnvironment,
+	readLastLaunchProfile,
+	readLastLaunchProfileName,
+	readLaunchProfiles,
+	saveLastLaunchProfileName,
+} from "../utils/launch-profiles.ts";
+import type { LaunchProfile } from "../utils/launch-profiles.ts";
+import { waitForLocalStackStatus } from "../utils/localstack-status.ts";
 import {
 	openLicensePage,
 	startLocalStack,
 	stopLocalStack,
 } from "../utils/manage.ts";
+import {
+	findAvailableGatewayPorts,
+	findPortConflicts,
+	formatPortConflicts,
+	stopContainers,
+} from "../utils/port-conflicts.ts";
+
+/**
+ * How long a restart waits for the container to stop before giving up.
+ */
+const STOP_TIMEOUT_MS = 60_000;
 
 export default createPlugin(
 	"manage",
-	({ context, outputChannel, telemetry, localStackStatusTracker }) => {
+	({ context, outputChannel, telemetry, instanceRegistry }) => {
 		context.subscriptions.push(
-			commands.registerCommand("localstack.start", async () => {
+			commands.registerCommand("localstack.start", async (arg?: unknown) => {
+				const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+				if (!trackedInstance) {
+					return;
+				}
+				let { instance, localStackStatusTracker } = trackedInstance;
 				if (localStackStatusTracker.status() !== "stopped") {
-					window.showInformationMessage("LocalStack is already running.");
+					void window.showInformationMessage("LocalStack is already running.");
+					return;
+				}
+
+				// Discovered containers are started as they are, so launch profiles don't apply.
+				let launchProfile: LaunchProfile | undefined;
+				if (!instance.discovered) {
+					const selection = await pickLaunchProfile(
+						context.workspaceState,
+						outputChannel,
+					);
+					if (!selection) {
+						return;
+					}
+					({ launchProfile } = selection);
+					await saveLastLaunchProfileName(
+						context.workspaceState,
+						launchProfile?.name,
+					);
+				}
+
+				const resolution = await resolvePortConflicts(
+					instance,
+					launchProfile,
+					outputChannel,
+				);
+				if (!resolution) {
 					return;
 				}
-				localStackStatusTracker.forceContainerStatus("running");
-				try {
-					await startLocalStack(outputChannel, telemetry);
-				} catch {
-					localStackStatusTracker.forceContainerStatus("stopped");
+				if (resolution.port !== undefined) {
+					await saveInstancePort(instance, resolution.port);
+					// Instances other than the default one get new trackers when their port changes.
+					await instanceRegistry.refresh();
+					const refreshed = resolveCommandInstance(
+						instanceRegistry,
+						instance.name,
+					);
+					if (!refreshed) {
+						return;
+					}
+					({ instance, localStackStatusTracker } = refreshed);
+					instance = { ...instance, port: resolution.port };
 				}
+
+				await window.withProgress(
+					{
+						location: ProgressLocation.Notification,
+						title: launchProfile
+							? `Starting LocalStack (${launchProfile.name})`
+							: "Starting LocalStack",
+						cancellable: true,
+					},
+					async (progress, cancellationToken) => {
+						localStackStatusTracker.forceContainerStatus("running");
+						try {
+							await startLocalStack(instance, outputChannel, telemetry, {
+								progress,
+								cancellationToken,
+								localStackStatusTracker,
+								launchProfile,
+							});
+						} catch {
+							localStackStatusTracker.forceContainerStatus("stopped");
+						}
+					},
+				);
 			}),
 		);
 
 		context.subscriptions.push(
-			commands.registerCommand("localstack.stop", () => {
+			commands.registerCommand("localstack.stop", async (arg?: unknown) => {
+				const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+				if (!trackedInstance) {
+					return;
+				}
+				const { instance, localStackStatusTracker } = trackedInstance;
 				if (localStackStatusTracker.status() !== "running") {
-					window.showInformationMessage("LocalStack is not running.");
+					void window.showInformationMessage("LocalStack is not running.");
 					return;
 				}
 				localStackStatusTracker.forceContainerStatus("stopping");
-				void stopLocalStack(outputChannel, telemetry);
+				const stopped = await stopLocalStack(
+					instance,
+					outputChannel,
+					telemetry,
+				);
+				if (!stopped) {
+					localStackStatusTracker.forceContainerStatus("running");
+				}
+			}),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand("localstack.restart", async (arg?: unknown) => {
+				const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+				if (!trackedInstance) {
+					return;
+				}
+				const { instance, localStackStatusTracker } = trackedInstance;
+				const status = localStackStatusTracker.status();
+				if (status === "starting" || status === "stopping") {
+					void window.showInformationMessage(
+						`LocalStack is ${status}, try again in a moment.`,
+					);
+					return;
+				}
+
+				const launchProfile = instance.discovered
+					? undefined
+					: await readLastLaunchProfile(context.workspaceState, outputChannel);
+
+				await window.withProgress(
+					{
+						location: ProgressLocation.Notification,
+						title: "Restarting LocalStack",
+						cancellable: true,
+					},
+					async (progress, cancellationToken) => {
+						if (localStackStatusTracker.status() === "running") {
+							localStackStatusTracker.forceContainerStatus("stopping");
+							const stopped = await stopLocalStack(
+								instance,
+								outputChannel,
+								telemetry,
+								{ progress },
+							);
+							if (!stopped) {
+								localStackStatusTracker.forceContainerStatus("running");
+								return;
+							}
+
+							// The CLI may return before the container is gone, so
+							// wait for the status tracker before starting again.
+							progress.report({ message: "Waiting for LocalStack to stop..." });
+							const status = await waitForLocalStackStatus(
+								localStackStatusTracker,
+								["stopped"],
+								{ timeoutMs: STOP_TIMEOUT_MS, cancellationToken },
+							);
+							if (!status && !cancellationToken.isCancellationRequested) {
+								void window.showErrorMessage(
+									`LocalStack did not stop within ${STOP_TIMEOUT_MS / 1000} seconds, so it was not started again.`,
+								);
+								return;
+							}
+						}
+
+						if (cancellationToken.isCancellationRequested) {
+							return;
+						}
+
+						localStackStatusTracker.forceContainerStatus("running");
+						try {
+							await startLocalStack(instance, outputChannel, telemetry, {
+								progress,
+								cancellationToken,
+								localStackStatusTracker,
+								launchProfile,
+							});
+						} catch {
+							localStackStatusTracker.forceContainerStatus("stopped");
+							return;
+						}
+
+						void window.showInformationMessage("LocalStack restarted.");
+					},
+				);
 			}),
 		);
 
@@ -43,3 +222,155 @@ export default createPlugin(
 		);
 	},
 );
+
+interface LaunchProfileQuickPickItem extends QuickPickItem {
+	launchProfile?: LaunchProfile;
+}
+
+/**
+ * Asks the user which launch profile to start LocalStack with.
+ *
+ * The picker is skipped if no profiles are defined.
+ * The profile used last in the workspace is listed first.
+ *
+ * @returns The selection, or `undefined` if the user dismissed the picker.
+ */
+async function pickLaunchProfile(
+	workspaceState: Memento,
+	outputChannel: LogOutputChannel,
+): Promise<{ launchProfile?: LaunchProfile } | undefined> {
+	const launchProfiles = await readLaunchProfiles(outputChannel);
+	if (launchProfiles.length === 0) {
+		return {};
+	}
+
+	const lastName = readLastLaunchProfileName(workspaceState);
+	const profileItems = launchProfiles.map(
+		(launchProfile): LaunchProfileQuickPickItem => ({
+			label: launchProfile.name,
+			description: launchProfile.name === lastName ? "last used" : undefined,
+			detail: Object.keys(launchProfile.environment).join(", ") || undefined,
+			launchProfile,
+		}),
+	);
+	const defaultItem: LaunchProfileQuickPickItem = {
+		label: "Default",
+		detail: "Start without a launch profile",
+	};
+	const lastItem = profileItems.find(
+		({ launchProfile }) => launchProfile?.name === lastName,
+	);
+	const items = lastItem
+		? [
+				lastItem,
+				defaultItem,
+				...profileItems.filter((item) => item !== lastItem),
+			]
+		: [defaultItem, ...profileItems];
+
+	return window.showQuickPick(items, {
+		title: "Start LocalStack",
+		placeHolder: "Select a launch profile",
+	});
+}
+
+/**
+ * Checks that the ports the instance needs are free before starting it,
+ * and asks the user how to proceed otherwise.
+ *
+ * @returns The gateway port to move the instance to, if any,
+ * or `undefined` if the start should be cancelled.
+ */
+async function resolvePortConflicts(
+	instance: LocalStackInstance,
+	launchProfile: LaunchProfile | undefined,
+	outputChannel: LogOutputChannel,
+): Promise<{ port?: number } | undefined> {
+	const conflicts = await window.withProgress(
+		{
+			location: ProgressLocation.Window,
+			title: "Checking the LocalStack ports...",
+		},
+		() =>
+			findPortConflicts(
+				instance,
+				launchProfile ? getLaunchProfileEnvironment(launchProfile) : {},
+				outputChannel,
+			),
+	);
+	if (conflicts.length === 0) {
+		return {};
+	}
+
+	const summary = formatPortConflicts(conflicts);
+	outputChannel.warn(`[port-conflicts]: Ports already in use: ${summary}`);
+
+	const containerNames = [
+		...new Set(
+			conflicts.flatMap(({ owner }) =>
+				owner?.kind === "container" ? [owner.name] : [],
+			),
+		),
+	];
+	const stopItem = {
+		title: containerNames.length > 1 ? "Stop Containers" : "Stop Container",
+	};
+	const otherPortsItem = { title: "Use Other Ports" };
+	const continueItem = { title: "Continue Anyway" };
+	const selection = await window.showWarningMessage(
+		"The ports LocalStack needs are already in use.",
+		{ modal: true, detail: summary },
+		...(containerNames.length > 0 ? [stopItem] : []),
+		// Discovered containers keep the ports they were created with.
+		...(instance.discovered ? [] : [otherPortsItem]),
+		continueItem,
+	);
+
+	if (selection === continueItem) {
+		return {};
+	}
+
+	if (selection === stopItem) {
+		try {
+			await window.withProgress(
+				{
+					location: ProgressLocation.Notification,
+					title: `Stopping ${containerNames.join(", ")}...`,
+				},
+				() => stopContainers(containerNames, outputChannel),
+			);
+			return {};
+		} catch (error) {
+			outputChannel.error(error instanceof Error ? error : String(error));
+			void window.showErrorMessage(
+				`Failed to stop ${containerNames.join(", ")}.`,
+			);
+			return;
+		}
+	}
+
+	if (selection === otherPortsItem) {
+		const ports = await findAvailableGatewayPorts(instance, outputChannel);
+		if (ports.length === 0) {
+			void window.showErrorMessage(
+				"Could not find other free ports for LocalStack.",
+			);
+			return;
+		}
+
+		const item = await window.showQuickPick(
+			ports.map((port) => {
+				const servicePorts = getInstanceServicePorts({ ...instance, port });
+				return {
+					label: String(port),
+					detail: `Services on ports ${servicePorts.start}-${servicePorts.end - 1}`,
+					port,
+				};
+			}),
+			{ title: "Select the LocalStack gateway port" },
+		);
+		return item && { port: item.port };
+	}
+
+	return;
+}
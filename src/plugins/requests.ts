@@ -0,0 +1,253 @@
+import {
+	commands,
+	EventEmitter,
+	languages,
+	Range,
+	ThemeColor,
+	ThemeIcon,
+	TreeItem,
+	TreeItemCollapsibleState,
+	Uri,
+	window,
+	workspace,
+} from "vscode";
+import type { Event, ProviderResult, TreeDataProvider } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import {
+	groupRequestsByService,
+	isFailedRequest,
+	matchesRequestFilter,
+} from "../utils/aws-requests.ts";
+import type { AwsRequestRecord } from "../utils/aws-requests.ts";
+import { parseAwsRequest, parseLogEntry } from "../utils/localstack-logs.ts";
+
+/**
+ * The number of log lines kept to show the context of requests.
+ */
+const MAX_LINES = 10_000;
+
+const MAX_REQUESTS = 1_000;
+
+/**
+ * The number of log lines shown before and after a request.
+ */
+const CONTEXT_LINES = 20;
+
+const REQUEST_LOG_SCHEME = "localstack-request-log";
+
+interface LogLine {
+	id: number;
+	text: string;
+}
+
+export default createPlugin(
+	"requests",
+	({ context, localStackLogsTracker }) => {
+		let lines: LogLine[] = [];
+		let requests: AwsRequestRecord[] = [];
+		let nextLineId = 0;
+		let filter = "";
+
+		const provider = new RequestsTreeDataProvider();
+		const treeView = window.createTreeView("localstack.requests", {
+			treeDataProvider: provider,
+			showCollapseAll: true,
+		});
+		context.subscriptions.push(treeView);
+
+		const refresh = () => {
+			const filtered = requests.filter((request) =>
+				matchesRequestFilter(request, filter),
+			);
+			provider.setRequests(filtered);
+			treeView.description = filter ? `Filter: ${filter}` : undefined;
+			treeView.message =
+				filtered.length > 0
+					? undefined
+					: requests.length > 0
+						? "No AWS requests match the filter."
+						: "No AWS requests yet.";
+		};
+		refresh();
+
+		// Busy logs would otherwise refresh the view for each request.
+		let refreshTimeout: NodeJS.Timeout | undefined;
+		context.subscriptions.push({
+			dispose() {
+				clearTimeout(refreshTimeout);
+			},
+		});
+
+		context.subscriptions.push(
+			localStackLogsTracker.onLine(({ text, historical }) => {
+				// Earlier lines would be listed as the most recent requests, with the wrong context.
+				if (historical) {
+					return;
+				}
+
+				const id = nextLineId++;
+				lines.push({ id, text });
+				if (lines.length > MAX_LINES) {
+					lines = lines.slice(-MAX_LINES);
+				}
+
+				const request = parseAwsRequest(text);
+				if (!request) {
+					return;
+				}
+				requests.push({
+					...request,
+					lineId: id,
+					timestamp: parseLogEntry(text).timestamp,
+				});
+				if (requests.length > MAX_REQUESTS) {
+					requests = requests.slice(-MAX_REQUESTS);
+				}
+				refreshTimeout ??= setTimeout(() => {
+					refreshTimeout = undefined;
+					refresh();
+				}, 500);
+			}),
+		);
+
+		const getContextLines = (lineId: number) =>
+			lines.filter(({ id }) => Math.abs(id - lineId) <= CONTEXT_LINES);
+
+		context.subscriptions.push(
+			workspace.registerTextDocumentContentProvider(REQUEST_LOG_SCHEME, {
+				provideTextDocumentContent(uri) {
+					const lineId = Number(uri.query);
+					const contextLines = getContextLines(lineId);
+					if (!contextLines.some(({ id }) => id === lineId)) {
+						return "The logs of this request are no longer available.";
+					}
+					return contextLines.map(({ text }) => text).join("\n");
+				},
+			}),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.showRequestLogs",
+				async (request: AwsRequestRecord) => {
+					const uri = Uri.from({
+						scheme: REQUEST_LOG_SCHEME,
+						path: `${request.service}.${request.operation}.log`,
+						query: String(request.lineId),
+					});
+					const document = await languages.setTextDocumentLanguage(
+						await workspace.openTextDocument(uri),
+						"log",
+					);
+
+					const line = Math.max(
+						getContextLines(request.lineId).findIndex(
+							({ id }) => id === request.lineId,
+						),
+						0,
+					);
+					await window.showTextDocument(document, {
+						preview: true,
+						selection: new Range(line, 0, line, 0),
+					});
+				},
+			),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand("localstack.filterRequests", async () => {
+				const value = await window.showInputBox({
+					title: "Filter AWS requests",
+					prompt:
+						"Services, operations or status codes, e.g. `s3`, `PutObject`, `4xx` or `failed`",
+					value: filter,
+				});
+				if (value === undefined) {
+					return;
+				}
+				filter = value.trim();
+				refresh();
+			}),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand("localstack.clearRequests", () => {
+				requests = [];
+				lines = [];
+				refresh();
+			}),
+		);
+	},
+);
+
+class RequestsTreeItem extends TreeItem {
+	children?: RequestsTreeItem[];
+}
+
+class RequestsTreeDataProvider implements TreeDataProvider<RequestsTreeItem> {
+	readonly #onDidChangeTreeData = new EventEmitter<
+		// biome-ignore lint/suspicious/noConfusingVoidType: void is required by Event
+		RequestsTreeItem | undefined | void
+	>();
+
+	// biome-ignore lint/suspicious/noConfusingVoidType: void is required by Event
+	readonly onDidChangeTreeData: Event<RequestsTreeItem | undefined | void> =
+		this.#onDidChangeTreeData.event;
+
+	#items: RequestsTreeItem[] = [];
+
+	setRequests(requests: AwsRequestRecord[]) {
+		this.#items = groupRequestsByService(requests).map(
+			({ service, requests, failedCount }) => {
+				const item = new RequestsTreeItem(
+					service,
+					TreeItemCollapsibleState.Collapsed,
+				);
+				// Keeps the expanded state of the service across refreshes.
+				item.id = `service:${service}`;
+				item.description =
+					failedCount > 0
+						? `${requests.length} (${failedCount} failed)`
+						: String(requests.length);
+				item.iconPath = new ThemeIcon(
+					"symbol-namespace",
+					failedCount > 0 ? new ThemeColor("errorForeground") : undefined,
+				);
+				item.children = requests.map(createRequestItem);
+				return item;
+			},
+		);
+		this.#onDidChangeTreeData.fire();
+	}
+
+	getChildren(element?: RequestsTreeItem): ProviderResult<RequestsTreeItem[]> {
+		return element ? element.children : this.#items;
+	}
+
+	getTreeItem(element: RequestsTreeItem): TreeItem {
+		return element;
+	}
+}
+
+function createRequestItem(request: AwsRequestRecord): RequestsTreeItem {
+	const { operation, statusCode, timestamp } = request;
+	const item = new RequestsTreeItem(operation, TreeItemCollapsibleState.None);
+	const time = timestamp?.slice(11, 23);
+	item.description = time ? `${statusCode} · ${time}` : String(statusCode);
+	item.tooltip = `${request.service}.${operation} => ${statusCode}${timestamp ? `\n${timestamp}` : ""}`;
+	item.iconPath = isFailedRequest(request)
+		? new ThemeIcon(
+				statusCode >= 500 ? "error" : "warning",
+				new ThemeColor(
+					statusCode >= 500 ? "errorForeground" : "list.warningForeground",
+				),
+			)
+		: new ThemeIcon("pass", new ThemeColor("testing.iconPassed"));
+	item.command = {
+		title: "Show Request Logs",
+		command: "localstack.showRequestLogs",
+		arguments: [request],
+	};
+	return item;
+}
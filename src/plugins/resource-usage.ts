@@ -0,0 +1,98 @@
+import { commands, window, workspace } from "vscode";
+import type { Disposable } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import type { TrackedInstance } from "../utils/instance-registry.ts";
+import { DEFAULT_INSTANCE } from "../utils/instances.ts";
+import { formatByteSize } from "../utils/resource-usage.ts";
+import type { ResourceUsage } from "../utils/resource-usage.ts";
+
+/**
+ * The share of the memory limit above which a warning is shown, in percent. `0` disables the warning.
+ */
+function readMemoryWarningThreshold(): number {
+	return workspace
+		.getConfiguration("localstack")
+		.get<number>("resourceUsage.memoryWarningThreshold", 90);
+}
+
+function getMemoryPercent(usage: ResourceUsage): number {
+	return usage.memoryLimit > 0
+		? (usage.memoryUsage / usage.memoryLimit) * 100
+		: 0;
+}
+
+export default createPlugin(
+	"resource-usage",
+	({ context, instanceRegistry }) => {
+		const watchedInstances = new Map<TrackedInstance, Disposable>();
+
+		const watchInstance = (tracked: TrackedInstance): Disposable => {
+			// Warn once each time the usage crosses the threshold.
+			let hasWarned = false;
+			return tracked.resourceUsageTracker.onChange((usage) => {
+				const threshold = readMemoryWarningThreshold();
+				if (!usage || threshold <= 0) {
+					hasWarned = false;
+					return;
+				}
+
+				const memoryPercent = getMemoryPercent(usage);
+				if (memoryPercent < threshold) {
+					hasWarned = false;
+					return;
+				}
+				if (hasWarned) {
+					return;
+				}
+				hasWarned = true;
+
+				const { instance } = tracked;
+				const name =
+					instance.name === DEFAULT_INSTANCE.name
+						? "LocalStack"
+						: `LocalStack "${instance.name}"`;
+				const lambdas =
+					usage.lambdaContainers > 0
+						? ` with ${usage.lambdaContainers} Lambda containers`
+						: "";
+				void window
+					.showWarningMessage(
+						`${name}${lambdas} is using ${Math.round(memoryPercent)}% of its memory limit (${formatByteSize(usage.memoryUsage)} / ${formatByteSize(usage.memoryLimit)}). Increase the memory available to Docker to avoid crashes.`,
+						"View Logs",
+					)
+					.then((selection) => {
+						if (selection === "View Logs") {
+							void commands.executeCommand("localstack.viewLogs", "emulator");
+						}
+					});
+			});
+		};
+
+		const watchInstances = () => {
+			const instances = instanceRegistry.instances();
+			for (const [tracked, disposable] of watchedInstances) {
+				if (!instances.includes(tracked)) {
+					disposable.dispose();
+					watchedInstances.delete(tracked);
+				}
+			}
+			for (const tracked of instances) {
+				if (!watchedInstances.has(tracked)) {
+					watchedInstances.set(tracked, watchInstance(tracked));
+				}
+			}
+		};
+
+		watchInstances();
+		instanceRegistry.onChange(watchInstances);
+		context.subscriptions.push({
+			dispose() {
+				for (const disposable of watchedInstances.values()) {
+					disposable.dispose();
+				}
+				watchedInstances.clear();
+			},
+		});
+	},
+);
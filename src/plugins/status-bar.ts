@@ -2,6 +2,7 @@ import { commands, QuickPickItemKind, ThemeColor, window } from "vscode";
 import type { QuickPickItem } from "vscode";
 
 import { createPlugin } from "../plugins.ts";
+import { formatByteSize } from "../utils/resource-usage.ts";
 
 export default createPlugin(
 	"status-bar",
@@ -10,6 +11,7 @@ export default createPlugin(
 		statusBarItem,
 		localStackStatusTracker,
 		setupStatusTracker,
+		resourceUsageTracker,
 		outputChannel,
 	}) => {
 		context.subscriptions.push(
@@ -53,6 +55,10 @@ export default createPlugin(
 					}
 
 					if (shouldShowLocalStackStop()) {
+						commands.push({
+							label: "Restart LocalStack",
+							command: "localstack.restart",
+						});
 						commands.push({
 							label: "Stop LocalStack",
 							command: "localstack.stop",
@@ -63,6 +69,10 @@ export default createPlugin(
 						label: "View Logs",
 						command: "localstack.viewLogs",
 					});
+					commands.push({
+						label: "Open Log Viewer",
+						command: "localstack.openLogViewer",
+					});
 
 					return commands;
 				};
@@ -103,7 +113,19 @@ export default createPlugin(
 					: "not installed";
 				statusBarItem.text = `${icon} LocalStack: ${statusText}`;
 
-				statusBarItem.tooltip = "Show LocalStack commands";
+				const usage = resourceUsageTracker.usage();
+				statusBarItem.tooltip = usage
+					? [
+							`CPU: ${usage.cpuPercent.toFixed(1)}%`,
+							`Memory: ${formatByteSize(usage.memoryUsage)} / ${formatByteSize(usage.memoryLimit)}`,
+							usage.lambdaContainers > 0 &&
+								`Lambda containers: ${usage.lambdaContainers}`,
+							"",
+							"Show LocalStack commands",
+						]
+							.filter((line) => line !== false)
+							.join("\n")
+					: "Show LocalStack commands";
 				statusBarItem.show();
 			}),
 		);
@@ -135,5 +157,9 @@ export default createPlugin(
 			outputChannel.trace("[status-bar]: setupStatusTracker changed");
 			refreshStatusBarImmediate();
 		});
+
+		resourceUsageTracker.onChange(() => {
+			refreshStatusBarImmediate();
+		});
 	},
 );
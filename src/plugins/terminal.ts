@@ -0,0 +1,213 @@
+import {
+	commands,
+	StatusBarAlignment,
+	TerminalProfile,
+	ThemeColor,
+	ThemeIcon,
+	window,
+} from "vscode";
+import type { EnvironmentVariableCollection, StatusBarItem } from "vscode";
+
+import { createPlugin } from "../plugins.ts";
+import { checkIsProfileConfigured } from "../utils/configure-aws.ts";
+import { createContainerShell } from "../utils/container-shell.ts";
+import { resolveCommandInstance } from "../utils/instance-registry.ts";
+import type {
+	InstanceRegistry,
+	TrackedInstance,
+} from "../utils/instance-registry.ts";
+import {
+	getTerminalEnvironment,
+	getTerminalOptions,
+} from "../utils/terminal.ts";
+
+const TERMINAL_ENVIRONMENT_KEY = "terminal_environment";
+
+/**
+ * Returns the instance a new LocalStack terminal targets: the default instance if it is running,
+ * otherwise the first running instance, falling back to the default instance.
+ */
+function getActiveInstance(
+	instanceRegistry: InstanceRegistry,
+): TrackedInstance {
+	const defaultInstance = instanceRegistry.defaultInstance();
+	if (defaultInstance.localStackStatusTracker.status() === "running") {
+		return defaultInstance;
+	}
+	return (
+		instanceRegistry
+			.instances()
+			.find(
+				({ localStackStatusTracker }) =>
+					localStackStatusTracker.status() === "running",
+			) ?? defaultInstance
+	);
+}
+
+/**
+ * Warns that the terminal won't work until the "localstack" AWS profile is configured.
+ */
+async function checkAwsProfile() {
+	if (await checkIsProfileConfigured()) {
+		return;
+	}
+
+	const selection = await window.showWarningMessage(
+		'The "localstack" AWS profile used by the LocalStack terminal is not configured.',
+		"Configure AWS Profiles",
+	);
+	if (selection === "Configure AWS Profiles") {
+		await commands.executeCommand("localstack.configureAwsProfiles");
+	}
+}
+
+/**
+ * Adds the LocalStack environment to all integrated terminals of the workspace,
+ * or restores their original environment when `enabled` is false.
+ */
+function applyTerminalEnvironment(
+	collection: EnvironmentVariableCollection,
+	instanceRegistry: InstanceRegistry,
+	enabled: boolean,
+) {
+	collection.clear();
+	if (!enabled) {
+		return;
+	}
+
+	const { instance } = getActiveInstance(instanceRegistry);
+	const environment = getTerminalEnvironment(instance);
+	for (const [name, value] of Object.entries(environment)) {
+		collection.replace(name, value);
+	}
+	collection.description = `Targets LocalStack at ${environment.AWS_ENDPOINT_URL}`;
+}
+
+function refreshTerminalEnvironmentItem(
+	statusBarItem: StatusBarItem,
+	enabled: boolean,
+) {
+	statusBarItem.text = enabled
+		? "$(terminal) AWS: LocalStack"
+		: "$(terminal) AWS: default";
+	statusBarItem.tooltip = enabled
+		? "Integrated terminals target LocalStack. Click to restore the original AWS environment."
+		: "Integrated terminals use the original AWS environment. Click to target LocalStack.";
+	statusBarItem.backgroundColor = enabled
+		? new ThemeColor("statusBarItem.warningBackground")
+		: undefined;
+}
+
+export default createPlugin(
+	"terminal",
+	({ context, outputChannel, instanceRegistry, localStackStatusTracker }) => {
+		context.subscriptions.push(
+			window.registerTerminalProfileProvider("localstack.terminal", {
+				async provideTerminalProfile() {
+					void checkAwsProfile();
+					const { instance } = getActiveInstance(instanceRegistry);
+					return new TerminalProfile(await getTerminalOptions(instance));
+				},
+			}),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.openTerminal",
+				async (arg?: unknown) => {
+					void checkAwsProfile();
+					const trackedInstance =
+						arg === undefined
+							? getActiveInstance(instanceRegistry)
+							: resolveCommandInstance(instanceRegistry, arg);
+					if (!trackedInstance) {
+						return;
+					}
+					const terminal = window.createTerminal(
+						await getTerminalOptions(trackedInstance.instance),
+					);
+					terminal.show();
+				},
+			),
+		);
+
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.openContainerShell",
+				(arg?: unknown) => {
+					const trackedInstance = resolveCommandInstance(instanceRegistry, arg);
+					if (!trackedInstance) {
+						return;
+					}
+					const { instance, containerStatusTracker } = trackedInstance;
+					if (containerStatusTracker.status() !== "running") {
+						void window.showInformationMessage(
+							`The container "${instance.containerName}" is not running.`,
+						);
+						return;
+					}
+
+					const terminal = window.createTerminal({
+						name: `LocalStack: ${instance.containerName}`,
+						iconPath: new ThemeIcon("localstack-logo"),
+						pty: createContainerShell(instance.containerName, outputChannel),
+					});
+					terminal.show();
+
+					const statusListener = containerStatusTracker.onChange((status) => {
+						if (status !== "running") {
+							terminal.dispose();
+						}
+					});
+					const closeListener = window.onDidCloseTerminal((closed) => {
+						if (closed === terminal) {
+							statusListener.dispose();
+							closeListener.dispose();
+						}
+					});
+				},
+			),
+		);
+
+		const collection = context.environmentVariableCollection;
+		const isEnabled = () =>
+			context.workspaceState.get<boolean>(TERMINAL_ENVIRONMENT_KEY, false);
+
+		const statusBarItem = window.createStatusBarItem(
+			StatusBarAlignment.Left,
+			-2,
+		);
+		statusBarItem.command = "localstack.toggleTerminalEnvironment";
+		context.subscriptions.push(statusBarItem);
+
+		applyTerminalEnvironment(collection, instanceRegistry, isEnabled());
+		refreshTerminalEnvironmentItem(statusBarItem, isEnabled());
+		statusBarItem.show();
+
+		context.subscriptions.push(
+			commands.registerCommand(
+				"localstack.toggleTerminalEnvironment",
+				async () => {
+					const enabled = !isEnabled();
+					await context.workspaceState.update(
+						TERMINAL_ENVIRONMENT_KEY,
+						enabled,
+					);
+					applyTerminalEnvironment(collection, instanceRegistry, enabled);
+					refreshTerminalEnvironmentItem(statusBarItem, enabled);
+					if (enabled) {
+						void checkAwsProfile();
+					}
+				},
+			),
+		);
+
+		// The endpoint follows the instance settings, and which instance is running.
+		instanceRegistry.onChange(() => {
+			applyTerminalEnvironment(collection, instanceRegistry, isEnabled());
+		});
+		localStackStatusTracker.onChange(() => {
+			applyTerminalEnvironment(collection, instanceRegistry, isEnabled());
+		});
+	},
+);
@@ -0,0 +1,44 @@
+import * as assert from "node:assert";
+
+import {
+	groupRequestsByService,
+	matchesRequestFilter,
+} from "../utils/aws-requests.ts";
+
+suite("AWS Requests Test Suite", () => {
+	test("should match requests against all words of the filter", () => {
+		const request = { service: "s3", operation: "PutObject", statusCode: 404 };
+		assert.ok(matchesRequestFilter(request, ""));
+		assert.ok(matchesRequestFilter(request, "s3"));
+		assert.ok(matchesRequestFilter(request, "putobject"));
+		assert.ok(matchesRequestFilter(request, "s3.PutObject"));
+		assert.ok(matchesRequestFilter(request, "s3 4xx"));
+		assert.ok(matchesRequestFilter(request, "404 failed"));
+		assert.ok(!matchesRequestFilter(request, "sqs"));
+		assert.ok(!matchesRequestFilter(request, "s3 5xx"));
+		assert.ok(!matchesRequestFilter({ ...request, statusCode: 200 }, "failed"));
+	});
+
+	test("should group requests by service", () => {
+		const groups = groupRequestsByService([
+			{ service: "sqs", operation: "SendMessage", statusCode: 200, lineId: 0 },
+			{ service: "s3", operation: "PutObject", statusCode: 200, lineId: 1 },
+			{ service: "s3", operation: "GetObject", statusCode: 404, lineId: 2 },
+		]);
+		assert.deepStrictEqual(
+			groups.map(({ service, requests, failedCount }) => ({
+				service,
+				operations: requests.map(({ operation }) => operation),
+				failedCount,
+			})),
+			[
+				{
+					service: "s3",
+					operations: ["GetObject", "PutObject"],
+					failedCount: 1,
+				},
+				{ service: "sqs", operations: ["SendMessage"], failedCount: 0 },
+			],
+		);
+	});
+});
@@ -3,6 +3,8 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 
+import { ConfigurationTarget, workspace } from "vscode";
+
 import { configureAwsProfiles } from "../utils/configure-aws.ts";
 
 const TEST_AWS_DIRECTORY = path.join(
@@ -158,4 +160,31 @@ suite("Configure AWS Test Suite", () => {
 		// Clean up after test
 		await cleanUp();
 	});
+
+	test("should use the configured endpoint port", async () => {
+		const configFilePath = path.join(TEST_AWS_DIRECTORY, "config");
+		const configuration = workspace.getConfiguration("localstack.endpoint");
+		await configuration.update("port", 4567, ConfigurationTarget.Global);
+
+		try {
+			await configureAwsProfiles({
+				awsDirectory: TEST_AWS_DIRECTORY,
+				forceOverride: true,
+			});
+
+			const configContent = fs.readFileSync(configFilePath, "utf-8");
+			const configExpected = [
+				"[profile localstack]",
+				"region = us-east-1",
+				"output = json",
+				"endpoint_url = http://localhost.localstack.cloud:4567",
+				"",
+			].join("\n");
+			assert.strictEqual(configContent, configExpected);
+		} finally {
+			await configuration.update("port", undefined, ConfigurationTarget.Global);
+			// Clean up after test
+			await cleanUp();
+		}
+	});
 });
@@ -0,0 +1,50 @@
+import * as assert from "node:assert";
+
+import { processShellInput } from "../utils/container-shell.ts";
+
+suite("Container Shell Test Suite", () => {
+	test("should echo typed characters without sending them", () => {
+		assert.deepStrictEqual(processShellInput("l", "s -"), {
+			line: "ls -",
+			echo: "s -",
+			send: "",
+			eof: false,
+		});
+	});
+
+	test("should send the line on enter", () => {
+		assert.deepStrictEqual(processShellInput("ls -l", "a\r"), {
+			line: "",
+			echo: "a\r\n",
+			send: "ls -la\n",
+			eof: false,
+		});
+	});
+
+	test("should erase characters on backspace", () => {
+		assert.deepStrictEqual(processShellInput("ls", "\x7f\x7f\x7f"), {
+			line: "",
+			echo: "\b \b\b \b",
+			send: "",
+			eof: false,
+		});
+	});
+
+	test("should discard the line on Ctrl+C", () => {
+		assert.deepStrictEqual(processShellInput("rm -rf", "\x03"), {
+			line: "",
+			echo: "^C\r\n",
+			send: "\n",
+			eof: false,
+		});
+	});
+
+	test("should ignore arrow keys", () => {
+		assert.strictEqual(processShellInput("ls", "\x1b[A\x1b[D").line, "ls");
+	});
+
+	test("should end the input on Ctrl+D on an empty line", () => {
+		assert.strictEqual(processShellInput("", "\x04").eof, true);
+		assert.strictEqual(processShellInput("ls", "\x04").eof, false);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from "node:assert";
+
+import { parseContainerEvent } from "../utils/container-status.ts";
+
+suite("Container Status Test Suite", () => {
+	test("should parse Docker events", () => {
+		assert.deepStrictEqual(
+			parseContainerEvent({
+				status: "die",
+				id: "0123456789ab",
+				Type: "container",
+				Action: "die",
+				Actor: {
+					ID: "0123456789ab",
+					Attributes: { exitCode: "0", name: "localstack-main" },
+				},
+				scope: "local",
+				time: 1735689600,
+			}),
+			{ action: "die", containerName: "localstack-main" },
+		);
+	});
+
+	test("should parse Podman events", () => {
+		assert.deepStrictEqual(
+			parseContainerEvent({
+				ID: "0123456789ab",
+				Image: "docker.io/localstack/localstack:latest",
+				Name: "localstack-main",
+				Status: "died",
+				Time: "2025-01-01T00:00:00.000000000Z",
+				Type: "container",
+				Attributes: { containerExitCode: "0" },
+			}),
+			{ action: "die", containerName: "localstack-main" },
+		);
+	});
+
+	test("should ignore other events", () => {
+		assert.strictEqual(
+			parseContainerEvent({
+				Type: "container",
+				Action: "create",
+				Actor: { Attributes: { name: "localstack-main" } },
+			}),
+			undefined,
+		);
+		assert.strictEqual(parseContainerEvent({ Status: "pull" }), undefined);
+	});
+});
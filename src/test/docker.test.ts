@@ -0,0 +1,32 @@
+import * as assert from "node:assert";
+
+import { getRemoteDockerHostname } from "../utils/docker.ts";
+
+suite("Docker Test Suite", () => {
+	test("should return the hostname of remote Docker hosts", () => {
+		assert.strictEqual(
+			getRemoteDockerHostname("tcp://10.0.0.5:2376"),
+			"10.0.0.5",
+		);
+		assert.strictEqual(
+			getRemoteDockerHostname("ssh://user@docker-vm"),
+			"docker-vm",
+		);
+	});
+
+	test("should ignore local Docker hosts", () => {
+		assert.strictEqual(getRemoteDockerHostname(undefined), undefined);
+		assert.strictEqual(
+			getRemoteDockerHostname("unix:///var/run/docker.sock"),
+			undefined,
+		);
+		assert.strictEqual(
+			getRemoteDockerHostname("npipe:////./pipe/docker_engine"),
+			undefined,
+		);
+		assert.strictEqual(
+			getRemoteDockerHostname("tcp://127.0.0.1:2375"),
+			undefined,
+		);
+	});
+});
@@ -0,0 +1,71 @@
+import * as assert from "node:assert";
+
+import {
+	createErrorAlertMatcher,
+	createRateLimiter,
+} from "../utils/error-alerts.ts";
+
+const ERROR_LINE =
+	"2025-01-01T00:00:00.000 ERROR --- [   asgi_gw_0] l.s.lambda.invocation      : Init failed for function my-function";
+
+suite("Error Alerts Test Suite", () => {
+	test("should alert on error lines matching the patterns", () => {
+		assert.deepStrictEqual(createErrorAlertMatcher([], [])(ERROR_LINE), {
+			message: "Init failed for function my-function",
+			pattern: "Init failed for function my-function",
+		});
+		assert.deepStrictEqual(
+			createErrorAlertMatcher(["Init failed"], [])(ERROR_LINE),
+			{
+				message: "Init failed for function my-function",
+				pattern: "Init failed",
+			},
+		);
+		assert.strictEqual(
+			createErrorAlertMatcher(["s3"], [])(ERROR_LINE),
+			undefined,
+		);
+	});
+
+	test("should escape the message of the line to mute it", () => {
+		assert.strictEqual(
+			createErrorAlertMatcher(
+				[],
+				[],
+			)(ERROR_LINE.replace("my-function", "my-function (v1.2)"))?.pattern,
+			"Init failed for function my-function \\(v1\\.2\\)",
+		);
+	});
+
+	test("should ignore muted and other lines", () => {
+		assert.strictEqual(
+			createErrorAlertMatcher([], ["Init failed for function"])(ERROR_LINE),
+			undefined,
+		);
+		assert.strictEqual(
+			createErrorAlertMatcher([], [])(ERROR_LINE.replace("ERROR", " INFO")),
+			undefined,
+		);
+		assert.strictEqual(createErrorAlertMatcher([], [])("Ready."), undefined);
+		// Invalid patterns are ignored.
+		assert.strictEqual(
+			createErrorAlertMatcher(["("], [])(ERROR_LINE),
+			undefined,
+		);
+	});
+
+	test("should rate limit alerts", () => {
+		const rateLimiter = createRateLimiter({
+			limit: 2,
+			intervalMs: 60_000,
+			repeatIntervalMs: 300_000,
+		});
+		assert.ok(rateLimiter.take("a", 0));
+		assert.ok(!rateLimiter.take("a", 1_000));
+		assert.ok(rateLimiter.take("b", 2_000));
+		assert.ok(!rateLimiter.take("c", 3_000));
+		assert.ok(rateLimiter.take("c", 62_000));
+		assert.ok(!rateLimiter.take("a", 120_000));
+		assert.ok(rateLimiter.take("a", 300_000));
+	});
+});
@@ -0,0 +1,17 @@
+import * as assert from "node:assert";
+
+import { isVersionMatchingTag } from "../utils/image.ts";
+
+suite("Image Test Suite", () => {
+	test("should match versions with pinned tags", () => {
+		assert.strictEqual(isVersionMatchingTag("4.4.1", "4"), true);
+		assert.strictEqual(isVersionMatchingTag("4.4.1", "4.4"), true);
+		assert.strictEqual(isVersionMatchingTag("4.4.1", "4.4.1"), true);
+	});
+
+	test("should not match other versions", () => {
+		assert.strictEqual(isVersionMatchingTag("4.4.1", "4.3"), false);
+		assert.strictEqual(isVersionMatchingTag("4.4.1", "4.4.10"), false);
+		assert.strictEqual(isVersionMatchingTag("4.40.0", "4.4"), false);
+	});
+});
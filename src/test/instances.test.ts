@@ -0,0 +1,47 @@
+import * as assert from "node:assert";
+
+import {
+	CONTAINER_NAME_PATTERN,
+	DEFAULT_INSTANCE,
+	instancePortsOverlap,
+} from "../utils/instances.ts";
+
+suite("Instances Test Suite", () => {
+	test("should detect overlapping gateway and services ports", () => {
+		const instance = { ...DEFAULT_INSTANCE, name: "other" };
+		assert.strictEqual(
+			instancePortsOverlap(DEFAULT_INSTANCE, { ...instance, port: 4566 }),
+			true,
+		);
+		// Services ports 4511-4560.
+		assert.strictEqual(
+			instancePortsOverlap(DEFAULT_INSTANCE, { ...instance, port: 4567 }),
+			true,
+		);
+		// Gateway port within 4510-4559.
+		assert.strictEqual(
+			instancePortsOverlap(DEFAULT_INSTANCE, { ...instance, port: 4520 }),
+			true,
+		);
+	});
+
+	test("should allow instances side by side", () => {
+		const instance = { ...DEFAULT_INSTANCE, name: "other" };
+		assert.strictEqual(
+			instancePortsOverlap(DEFAULT_INSTANCE, { ...instance, port: 4666 }),
+			false,
+		);
+		assert.strictEqual(
+			instancePortsOverlap(DEFAULT_INSTANCE, { ...instance, port: 4625 }),
+			false,
+		);
+	});
+
+	test("should only accept Docker container names", () => {
+		assert.strictEqual(CONTAINER_NAME_PATTERN.test("localstack-main"), true);
+		assert.strictEqual(CONTAINER_NAME_PATTERN.test("localstack_2.dev"), true);
+		assert.strictEqual(CONTAINER_NAME_PATTERN.test("-localstack"), false);
+		assert.strictEqual(CONTAINER_NAME_PATTERN.test("a; rm -rf ~"), false);
+		assert.strictEqual(CONTAINER_NAME_PATTERN.test("$(id)"), false);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from "node:assert";
+
+import { getLaunchProfileEnvironment } from "../utils/launch-profiles.ts";
+
+suite("Launch Profiles Test Suite", () => {
+	test("should pass the configuration variables through", () => {
+		const environment = getLaunchProfileEnvironment({
+			name: "debug",
+			environment: { DEBUG: "1", PERSISTENCE: "1" },
+		});
+
+		assert.deepStrictEqual(environment, { DEBUG: "1", PERSISTENCE: "1" });
+	});
+
+	test("should map the image and volume directory", () => {
+		const environment = getLaunchProfileEnvironment({
+			name: "custom",
+			environment: {},
+			image: "localstack/localstack:4.0",
+			volumeDir: "/tmp/volume",
+		});
+
+		assert.deepStrictEqual(environment, {
+			IMAGE_NAME: "localstack/localstack:4.0",
+			LOCALSTACK_VOLUME_DIR: "/tmp/volume",
+		});
+	});
+
+	test("should not override the instance variables", () => {
+		const environment = getLaunchProfileEnvironment({
+			name: "custom",
+			environment: {
+				MAIN_CONTAINER_NAME: "other",
+				GATEWAY_LISTEN: ":4567",
+				SERVICES: "s3",
+			},
+		});
+
+		assert.deepStrictEqual(environment, { SERVICES: "s3" });
+	});
+});
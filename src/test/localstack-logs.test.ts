@@ -0,0 +1,95 @@
+import * as assert from "node:assert";
+
+import {
+	parseAwsRequest,
+	parseLogEntry,
+	parseTimestampedLine,
+} from "../utils/localstack-logs.ts";
+
+suite("LocalStack Logs Test Suite", () => {
+	test("should parse AWS requests", () => {
+		assert.deepStrictEqual(
+			parseAwsRequest(
+				"2025-01-01T00:00:00.000  INFO --- [et.reactor-0] localstack.request.aws     : AWS s3.PutObject => 200",
+			),
+			{ service: "s3", operation: "PutObject", statusCode: 200 },
+		);
+		assert.deepStrictEqual(
+			parseAwsRequest(
+				"2025-01-01T00:00:00.000  INFO --- [et.reactor-1] localstack.request.aws     : AWS resourcegroupstaggingapi.GetResources => 400 (ValidationException)",
+			),
+			{
+				service: "resourcegroupstaggingapi",
+				operation: "GetResources",
+				statusCode: 400,
+			},
+		);
+	});
+
+	test("should ignore other log lines", () => {
+		assert.strictEqual(parseAwsRequest("Ready."), undefined);
+		assert.strictEqual(
+			parseAwsRequest(
+				'2025-01-01T00:00:00.000  INFO --- [  MainThread] localstack.utils.bootstrap : Execution of "start_runtime_components" took 500.00ms',
+			),
+			undefined,
+		);
+	});
+
+	test("should parse log entries", () => {
+		assert.deepStrictEqual(
+			parseLogEntry(
+				"2025-01-01T00:00:00.000  INFO --- [et.reactor-0] localstack.request.aws     : AWS s3.PutObject => 200",
+			),
+			{
+				timestamp: "2025-01-01T00:00:00.000",
+				level: "INFO",
+				logger: "localstack.request.aws",
+				service: "s3",
+				message: "AWS s3.PutObject => 200",
+			},
+		);
+		assert.deepStrictEqual(
+			parseLogEntry(
+				"2025-01-01T00:00:00.000 WARNING --- [  MainThread] localstack.services.sqs.provider : Queue not found",
+			),
+			{
+				timestamp: "2025-01-01T00:00:00.000",
+				level: "WARN",
+				logger: "localstack.services.sqs.provider",
+				service: "sqs",
+				message: "Queue not found",
+			},
+		);
+	});
+
+	test("should keep other lines as messages", () => {
+		assert.deepStrictEqual(
+			parseLogEntry("Traceback (most recent call last):"),
+			{
+				message: "Traceback (most recent call last):",
+			},
+		);
+	});
+
+	test("should parse timestamped lines", () => {
+		assert.deepStrictEqual(
+			parseTimestampedLine("2025-01-01T00:00:00.123456789Z Ready."),
+			{ timestamp: "2025-01-01T00:00:00.123456789Z", text: "Ready." },
+		);
+		assert.deepStrictEqual(
+			parseTimestampedLine("2025-01-01T01:00:00.5+01:00 Ready."),
+			{ timestamp: "2025-01-01T00:00:00.500000000Z", text: "Ready." },
+		);
+		assert.strictEqual(
+			parseTimestampedLine("Error response from daemon: No such container"),
+			undefined,
+		);
+	});
+
+	test("should compare timestamps as strings", () => {
+		const earlier = parseTimestampedLine("2025-01-01T00:00:00.1234Z a");
+		const later = parseTimestampedLine("2025-01-01T00:00:00.12345Z b");
+		assert.ok(earlier && later && earlier.timestamp < later.timestamp);
+	});
+});
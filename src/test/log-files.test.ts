@@ -0,0 +1,30 @@
+import * as assert from "node:assert";
+
+import { getLogFileName, parseLogFileName } from "../utils/log-files.ts";
+
+suite("Log Files Test Suite", () => {
+	test("should name the files of a session", () => {
+		assert.strictEqual(
+			getLogFileName("8b1d3e2f-5c1a-4a7e-9d2b-1f0e6c3a9b7d"),
+			"8b1d3e2f-5c1a-4a7e-9d2b-1f0e6c3a9b7d.log",
+		);
+		assert.strictEqual(getLogFileName("session", 2), "session.2.log");
+	});
+
+	test("should parse the names of log files", () => {
+		assert.deepStrictEqual(parseLogFileName("session.log"), {
+			sessionId: "session",
+			index: 0,
+		});
+		assert.deepStrictEqual(parseLogFileName("session.12.log"), {
+			sessionId: "session",
+			index: 12,
+		});
+		assert.deepStrictEqual(parseLogFileName("session-1760000000000.1.log"), {
+			sessionId: "session-1760000000000",
+			index: 1,
+		});
+		assert.strictEqual(parseLogFileName("notes.txt"), undefined);
+		assert.strictEqual(parseLogFileName(".log"), undefined);
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from "node:assert";
+
+import { DEFAULT_INSTANCE } from "../utils/instances.ts";
+import {
+	formatPortConflicts,
+	getRequiredPorts,
+	parseLsofOutput,
+	parseNetstatOutput,
+	parsePublishedPorts,
+} from "../utils/port-conflicts.ts";
+
+suite("Port Conflicts Test Suite", () => {
+	test("should require the gateway port and the services range", () => {
+		const ports = getRequiredPorts(DEFAULT_INSTANCE);
+		assert.strictEqual(ports.length, 51);
+		assert.strictEqual(ports[0], 4566);
+		assert.strictEqual(ports[1], 4510);
+		assert.strictEqual(ports.at(-1), 4559);
+	});
+
+	test("should move the services range with the gateway port", () => {
+		const ports = getRequiredPorts({ ...DEFAULT_INSTANCE, port: 4666 });
+		assert.strictEqual(ports[1], 4610);
+		assert.strictEqual(ports.at(-1), 4659);
+	});
+
+	test("should read the services range from the environment", () => {
+		assert.deepStrictEqual(
+			getRequiredPorts(DEFAULT_INSTANCE, {
+				EXTERNAL_SERVICE_PORTS_START: "5000",
+				EXTERNAL_SERVICE_PORTS_END: "5002",
+			}),
+			[4566, 5000, 5001],
+		);
+	});
+
+	test("should parse published ports", () => {
+		assert.deepStrictEqual(
+			parsePublishedPorts(
+				"0.0.0.0:4566->4566/tcp, :::4566->4566/tcp, 0.0.0.0:4510-4512->4510-4512/tcp, 5432/tcp",
+			),
+			[4566, 4510, 4511, 4512],
+		);
+	});
+
+	test("should parse lsof output", () => {
+		const owners = parseLsofOutput(
+			[
+				"p1234",
+				"cnode",
+				"f21",
+				"n*:4566",
+				"p42",
+				"cpython3",
+				"f3",
+				"n127.0.0.1:4510",
+			].join("\n"),
+		);
+		assert.deepStrictEqual(owners.get(4566), {
+			kind: "process",
+			pid: 1234,
+			command: "node",
+		});
+		assert.deepStrictEqual(owners.get(4510), {
+			kind: "process",
+			pid: 42,
+			command: "python3",
+		});
+	});
+
+	test("should parse netstat output", () => {
+		const owners = parseNetstatOutput(
+			[
+				"  Proto  Local Address          Foreign Address        State           PID",
+				"  TCP    0.0.0.0:4566           0.0.0.0:0              LISTENING       1234",
+				"  TCP    127.0.0.1:50000        127.0.0.1:4566         ESTABLISHED     99",
+			].join("\r\n"),
+		);
+		assert.deepStrictEqual(
+			[...owners.entries()],
+			[[4566, { kind: "process", pid: 1234 }]],
+		);
+	});
+
+	test("should group consecutive ports with the same owner", () => {
+		assert.strictEqual(
+			formatPortConflicts([
+				{ port: 4511, owner: { kind: "process", pid: 1, command: "node" } },
+				{ port: 4566, owner: { kind: "container", name: "db" } },
+				{ port: 4510, owner: { kind: "process", pid: 1, command: "node" } },
+				{ port: 4513 },
+			]),
+			'4510-4511 (node (pid 1)), 4513 (an unknown process), 4566 (container "db")',
+		);
+	});
+});
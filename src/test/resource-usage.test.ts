@@ -0,0 +1,79 @@
+import * as assert from "node:assert";
+
+import {
+	aggregateResourceUsage,
+	parseByteSize,
+	parseStatsLine,
+} from "../utils/resource-usage.ts";
+
+suite("Resource Usage Test Suite", () => {
+	test("should parse byte sizes", () => {
+		assert.strictEqual(parseByteSize("512MiB"), 512 * 2 ** 20);
+		assert.strictEqual(parseByteSize("1.5GiB"), 1.5 * 2 ** 30);
+		assert.strictEqual(parseByteSize("1.5GB"), 1.5e9);
+		assert.strictEqual(parseByteSize("0B"), 0);
+		assert.strictEqual(parseByteSize("--"), undefined);
+	});
+
+	test("should parse stats lines", () => {
+		assert.deepStrictEqual(
+			parseStatsLine("\x1b[2J\x1b[Hlocalstack-main\t3.42%\t512MiB / 8GiB"),
+			{
+				name: "localstack-main",
+				cpuPercent: 3.42,
+				memoryUsage: 512 * 2 ** 20,
+				memoryLimit: 8 * 2 ** 30,
+			},
+		);
+		assert.strictEqual(
+			parseStatsLine("localstack-main\t--\t-- / --"),
+			undefined,
+		);
+	});
+
+	test("should add up the Lambda containers", () => {
+		const limit = 8 * 2 ** 30;
+		assert.deepStrictEqual(
+			aggregateResourceUsage("localstack-main", [
+				{
+					name: "localstack-main",
+					cpuPercent: 10,
+					memoryUsage: 100,
+					memoryLimit: limit,
+				},
+				{
+					name: "localstack-main-lambda-my-function-1a2b3c",
+					cpuPercent: 5,
+					memoryUsage: 50,
+					memoryLimit: limit,
+				},
+				{
+					name: "postgres",
+					cpuPercent: 50,
+					memoryUsage: 500,
+					memoryLimit: limit,
+				},
+			]),
+			{
+				cpuPercent: 15,
+				memoryUsage: 150,
+				memoryLimit: limit,
+				lambdaContainers: 1,
+			},
+		);
+	});
+
+	test("should ignore stats without the LocalStack container", () => {
+		assert.strictEqual(
+			aggregateResourceUsage("localstack-main", [
+				{
+					name: "postgres",
+					cpuPercent: 50,
+					memoryUsage: 500,
+					memoryLimit: 1000,
+				},
+			]),
+			undefined,
+		);
+	});
+});
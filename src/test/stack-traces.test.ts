@@ -0,0 +1,116 @@
+import * as assert from "node:assert";
+
+import { mapContainerPath } from "../utils/source-paths.ts";
+import {
+	createStackTraceCollector,
+	findStackFrames,
+} from "../utils/stack-traces.ts";
+import type { StackTrace } from "../utils/stack-traces.ts";
+
+suite("Stack Traces Test Suite", () => {
+	test("should find Python stack frames", () => {
+		const text = '  File "/var/task/handler.py", line 42, in handler';
+		const [frame] = findStackFrames(text);
+		assert.deepStrictEqual(
+			{ ...frame, location: text.slice(frame.start, frame.end) },
+			{
+				path: "/var/task/handler.py",
+				line: 42,
+				start: 7,
+				end: 38,
+				location: '"/var/task/handler.py", line 42',
+			},
+		);
+	});
+
+	test("should find Node.js stack frames", () => {
+		assert.deepStrictEqual(
+			findStackFrames("at Runtime.handler (/var/task/index.js:42:13)").map(
+				({ path, line, column }) => ({ path, line, column }),
+			),
+			[{ path: "/var/task/index.js", line: 42, column: 13 }],
+		);
+		assert.deepStrictEqual(
+			findStackFrames("at file:///var/task/index.mjs:7:1").map(
+				({ path, line, column }) => ({ path, line, column }),
+			),
+			[{ path: "/var/task/index.mjs", line: 7, column: 1 }],
+		);
+		assert.deepStrictEqual(
+			findStackFrames("at process.processTicksAndRejections (node:internal)"),
+			[],
+		);
+	});
+
+	test("should collect Python stack traces", () => {
+		const traces: StackTrace[] = [];
+		const collector = createStackTraceCollector((trace) => traces.push(trace));
+		for (const line of [
+			"Traceback (most recent call last):",
+			'File "/var/runtime/bootstrap.py", line 60, in handle',
+			"response = request_handler(event, context)",
+			'File "/var/task/handler.py", line 3, in handler',
+			"return 1 / 0",
+			"ZeroDivisionError: division by zero",
+		]) {
+			collector.push(line);
+		}
+		assert.deepStrictEqual(
+			traces.map(({ message, frames }) => ({
+				message,
+				paths: frames.map(({ path }) => path),
+			})),
+			[
+				{
+					message: "ZeroDivisionError: division by zero",
+					paths: ["/var/task/handler.py", "/var/runtime/bootstrap.py"],
+				},
+			],
+		);
+	});
+
+	test("should collect Node.js stack traces", () => {
+		const traces: StackTrace[] = [];
+		const collector = createStackTraceCollector((trace) => traces.push(trace));
+		for (const line of [
+			"Error: boom",
+			"at Runtime.handler (/var/task/index.js:4:9)",
+			"at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+		]) {
+			collector.push(line);
+		}
+		assert.strictEqual(traces.length, 0);
+		collector.flush();
+		assert.deepStrictEqual(
+			traces.map(({ message, frames }) => ({
+				message,
+				paths: frames.map(({ path }) => path),
+			})),
+			[{ message: "Error: boom", paths: ["/var/task/index.js"] }],
+		);
+	});
+
+	test("should map container paths", () => {
+		const mappings = {
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: VS Code variable
+			"/var/task": "${workspaceFolder}/lambda",
+			"/var/task/vendor/": "/opt/vendor",
+		};
+		assert.strictEqual(
+			mapContainerPath("/var/task/app/handler.py", mappings, "/workspace"),
+			"/workspace/lambda/app/handler.py",
+		);
+		assert.strictEqual(
+			mapContainerPath("/var/task/vendor/lib.py", mappings, "/workspace"),
+			"/opt/vendor/lib.py",
+		);
+		assert.strictEqual(
+			mapContainerPath("/var/runtime/bootstrap.py", mappings, "/workspace"),
+			undefined,
+		);
+		assert.strictEqual(
+			mapContainerPath("/var/task/handler.py", mappings),
+			undefined,
+		);
+	});
+});
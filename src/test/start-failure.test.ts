@@ -0,0 +1,77 @@
+import * as assert from "node:assert";
+
+import { classifyStartFailure } from "../utils/start-failure.ts";
+
+function classify(output: string, evidence = {}) {
+	return classifyStartFailure({ output, ...evidence }).category;
+}
+
+suite("Start Failure Test Suite", () => {
+	test("should detect a Docker daemon that is not running", () => {
+		assert.strictEqual(
+			classify(
+				"Cannot connect to the Docker daemon at unix:///var/run/docker.sock. Is the docker daemon running?",
+				{ isLicenseValid: false },
+			),
+			"docker_unavailable",
+		);
+	});
+
+	test("should detect ports in use", () => {
+		assert.strictEqual(
+			classify("Bind for 0.0.0.0:4566 failed: port is already allocated"),
+			"port_in_use",
+		);
+		assert.strictEqual(
+			classify("listen tcp4 0.0.0.0:4566: bind: address already in use"),
+			"port_in_use",
+		);
+	});
+
+	test("should detect a missing image", () => {
+		assert.strictEqual(
+			classify("No such image: localstack/localstack-pro:4.99"),
+			"image_missing",
+		);
+		assert.strictEqual(
+			classify(
+				"Error response from daemon: manifest for localstack/localstack-pro:4.99 not found: manifest unknown",
+			),
+			"image_missing",
+		);
+	});
+
+	test("should detect out-of-memory kills", () => {
+		assert.strictEqual(classify("", { isOomKilled: true }), "out_of_memory");
+		assert.strictEqual(classify("MemoryError"), "out_of_memory");
+	});
+
+	test("should detect volume permission errors", () => {
+		assert.strictEqual(
+			classify(
+				"PermissionError: [Errno 13] Permission denied: '/var/lib/localstack/cache'",
+			),
+			"volume_permission",
+		);
+	});
+
+	test("should detect invalid licenses", () => {
+		assert.strictEqual(
+			classify("Error: ContainerException", { isLicenseValid: false }),
+			"invalid_license",
+		);
+		assert.strictEqual(
+			classify("License activation failed! Reason: invalid auth token"),
+			"invalid_license",
+		);
+	});
+
+	test("should fall back to an unknown cause", () => {
+		assert.strictEqual(
+			classify("Error: ContainerException", { isLicenseValid: true }),
+			"unknown",
+		);
+		// The license is not checked for the Community image.
+		assert.strictEqual(classify("Error: ContainerException"), "unknown");
+	});
+});
@@ -0,0 +1,17 @@
+import * as assert from "node:assert";
+
+import { DEFAULT_INSTANCE } from "../utils/instances.ts";
+import { getTerminalEnvironment } from "../utils/terminal.ts";
+
+suite("Terminal Test Suite", () => {
+	test("should point AWS tools at the instance", () => {
+		assert.deepStrictEqual(
+			getTerminalEnvironment({ ...DEFAULT_INSTANCE, port: 4666 }),
+			{
+				AWS_PROFILE: "localstack",
+				AWS_ENDPOINT_URL: "http://localhost.localstack.cloud:4666",
+				AWS_REGION: "us-east-1",
+			},
+		);
+	});
+});
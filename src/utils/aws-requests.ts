@@ -0,0 +1,80 @@
+import type { AwsRequest } from "./localstack-logs.ts";
+
+/**
+ * An AWS request seen in the LocalStack logs.
+ */
+export interface AwsRequestRecord extends AwsRequest {
+	/**
+	 * The id of the log line, to find the lines logged around the request.
+	 */
+	lineId: number;
+	/**
+	 * E.g. `2025-01-01T00:00:00.000`, if the log line has a timestamp.
+	 */
+	timestamp?: string;
+}
+
+/**
+ * Whether the request failed, i.e. returned a 4xx or 5xx status code.
+ */
+export function isFailedRequest({ statusCode }: AwsRequest): boolean {
+	return statusCode >= 400;
+}
+
+/**
+ * Whether the request matches all words of the filter. Words match the service, the operation,
+ * `service.Operation`, the status code, a status class such as `4xx`, or `failed`.
+ */
+export function matchesRequestFilter(
+	request: AwsRequest,
+	filter: string,
+): boolean {
+	const { service, operation, statusCode } = request;
+	const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+	return words.every((word) => {
+		if (word === "failed") {
+			return isFailedRequest(request);
+		}
+		if (/^\dxx$/.test(word)) {
+			return Math.floor(statusCode / 100) === Number(word[0]);
+		}
+		return (
+			String(statusCode) === word ||
+			service.toLowerCase() === word ||
+			operation.toLowerCase().includes(word) ||
+			`${service}.${operation}`.toLowerCase() === word
+		);
+	});
+}
+
+export interface AwsRequestGroup {
+	service: string;
+	/**
+	 * Most recent first.
+	 */
+	requests: AwsRequestRecord[];
+	failedCount: number;
+}
+
+/**
+ * Groups the requests by service, sorted by name.
+ */
+export function groupRequestsByService(
+	requests: AwsRequestRecord[],
+): AwsRequestGroup[] {
+	const groups = new Map<string, AwsRequestGroup>();
+	for (const request of requests) {
+		let group = groups.get(request.service);
+		if (!group) {
+			group = { service: request.service, requests: [], failedCount: 0 };
+			groups.set(request.service, group);
+		}
+		group.requests.unshift(request);
+		if (isFailedRequest(request)) {
+			group.failedCount++;
+		}
+	}
+	return [...groups.values()].sort((a, b) =>
+		a.service.localeCompare(b.service),
+	);
+}
@@ -4,13 +4,14 @@ import { access } from "node:fs/promises";
 import type { CancellationToken, LogOutputChannel } from "vscode";
 import { workspace } from "vscode";
 
-import { CLI_PATHS, LOCALSTACK_DOCKER_IMAGE_NAME } from "../constants.ts";
+import { CLI_PATHS } from "../constants.ts";
 
+import { getDockerEnvironment } from "./docker.ts";
 import { exec } from "./exec.ts";
+import { getLocalStackImage } from "./image.ts";
 import { spawn } from "./spawn.ts";
 import type { SpawnOptions } from "./spawn.ts";
 
-const IMAGE_NAME = LOCALSTACK_DOCKER_IMAGE_NAME; // not using the import directly as the constant name should match the env var
 const LOCALSTACK_LDM_PREVIEW = "1";
 
 const findLocalStack = async (): Promise<string> => {
@@ -50,6 +51,7 @@ export const execLocalStack = async (
 	options: {
 		outputChannel: LogOutputChannel;
 		// cancellationToken?: CancellationToken;
+		environment?: Record<string, string>;
 	},
 ) => {
 	const cli = await findLocalStack();
@@ -57,8 +59,10 @@ export const execLocalStack = async (
 	const response = await exec([`"${cli}"`, ...args].join(" "), {
 		env: {
 			...process.env,
-			IMAGE_NAME,
+			IMAGE_NAME: getLocalStackImage(),
 			LOCALSTACK_LDM_PREVIEW,
+			...getDockerEnvironment(),
+			...options.environment,
 		},
 	});
 	return response;
@@ -69,6 +73,7 @@ export const spawnLocalStack = async (
 	options: {
 		outputChannel: LogOutputChannel;
 		cancellationToken?: CancellationToken;
+		environment?: Record<string, string>;
 		onStderr?: SpawnOptions["onStderr"];
 	},
 ) => {
@@ -80,8 +85,10 @@ export const spawnLocalStack = async (
 		cancellationToken: options.cancellationToken,
 		environment: {
 			...process.env,
-			IMAGE_NAME,
+			IMAGE_NAME: getLocalStackImage(),
 			LOCALSTACK_LDM_PREVIEW,
+			...getDockerEnvironment(),
+			...options.environment,
 		},
 		onStderr: options.onStderr,
 	});
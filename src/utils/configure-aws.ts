@@ -9,6 +9,10 @@ import type { LogOutputChannel } from "vscode";
 import { readAuthToken } from "./authenticate.ts";
 import { parseIni, serializeIni, updateIniSection } from "./ini-parser.ts";
 import type { IniFile, IniSection } from "./ini-parser.ts";
+import {
+	DEFAULT_ENDPOINT_HOST,
+	readEndpointConfiguration,
+} from "./instances.ts";
 import type { Telemetry } from "./telemetry.ts";
 
 // Important: Add a newline to the beginning of the config and credentials files
@@ -16,14 +20,10 @@ import type { Telemetry } from "./telemetry.ts";
 // TODO: add a test for this.
 
 const LOCALSTACK_CONFIG_PROFILE_NAME = "profile localstack";
-const VALID_HOSTNAMES = [
-	"localhost.localstack.cloud",
-	"127.0.0.1",
-	"localhost",
-];
-const DEFAULT_PORT = "4566";
+const VALID_HOSTNAMES = [DEFAULT_ENDPOINT_HOST, "127.0.0.1", "localhost"];
+export const LOCALSTACK_REGION = "us-east-1";
 const LOCALSTACK_CONFIG_PROPERTIES = {
-	region: "us-east-1",
+	region: LOCALSTACK_REGION,
 	output: "json",
 };
 
@@ -58,10 +58,11 @@ function isValidEndpointUrl(url: string | undefined): boolean {
 	if (!url) return false;
 	try {
 		const parsed = new URL(url);
+		const { host, port } = readEndpointConfiguration();
 		return (
 			(parsed.protocol === "http:" || parsed.protocol === "https:") &&
-			VALID_HOSTNAMES.includes(parsed.hostname) &&
-			parsed.port !== "" // port must be present
+			[...VALID_HOSTNAMES, host].includes(parsed.hostname) &&
+			parsed.port === String(port) // port must match the configured endpoint
 		);
 	} catch {
 		return false;
@@ -75,9 +76,7 @@ async function checkIfConfigNeedsOverride(
 		return true; // profile doesn't exist
 	}
 
-	if (
-		section.properties.endpoint_url === "http://localhost.localstack.cloud:4566"
-	) {
+	if (getHostname(section.properties.endpoint_url) === DEFAULT_ENDPOINT_HOST) {
 		const isDnsResolved = await dnsResolveCheck(undefined);
 		if (!isDnsResolved) {
 			// if DNS is not resolved, we need to override the endpoint_url
@@ -107,6 +106,33 @@ function checkIfCredentialsNeedsOverride(
 	);
 }
 
+function getHostname(url: string | undefined): string | undefined {
+	try {
+		return url ? new URL(url).hostname : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Returns the endpoint URL for the AWS profile, based on the `localstack.endpoint.*` settings.
+ *
+ * Falls back to `127.0.0.1` if the default host can't be resolved.
+ */
+async function getEndpointUrl(
+	outputChannel: LogOutputChannel | undefined,
+): Promise<string> {
+	const { scheme, host, port } = readEndpointConfiguration();
+	if (host !== DEFAULT_ENDPOINT_HOST) {
+		return `${scheme}://${host}:${port}`;
+	}
+
+	const isDnsResolved = await dnsResolveCheck(outputChannel);
+	return isDnsResolved
+		? `${scheme}://${DEFAULT_ENDPOINT_HOST}:${port}`
+		: `${scheme}://127.0.0.1:${port}`;
+}
+
 async function getProfile(filename: string, profileName: string) {
 	const contents = await readFile(filename);
 	const iniFile = parseIni(contents);
@@ -122,7 +148,7 @@ async function dnsResolveCheck(
 		return addresses.includes("127.0.0.1");
 	} catch (error) {
 		outputChannel?.warn(
-			`[aws-profile]: Could not resolve "test.localhost.localstack.cloud". Falling back to "http://127.0.0.1:4566" for the endpoint_url in AWS profile "localstack". Your system may have DNS Rebind Protection enabled, which can block custom DNS names like "localhost.localstack.cloud"`,
+			`[aws-profile]: Could not resolve "test.localhost.localstack.cloud". Falling back to "127.0.0.1" for the endpoint_url in AWS profile "localstack". Your system may have DNS Rebind Protection enabled, which can block custom DNS names like "localhost.localstack.cloud"`,
 		);
 		return false;
 	}
@@ -148,12 +174,7 @@ async function configureAwsConfigProfile(
 			// LocalStack profile exists, but does not match the expected properties
 			if (overrideDecision === "Override") {
 				// User chose to override the existing profile.
-
-				// check if dnsResolveCheck is successful
-				const isDnsResolved = await dnsResolveCheck(outputChannel);
-				const endpointUrl = isDnsResolved
-					? `http://localhost.localstack.cloud:${DEFAULT_PORT}`
-					: `http://127.0.0.1:${DEFAULT_PORT}`;
+				const endpointUrl = await getEndpointUrl(outputChannel);
 
 				const updatedIniFile = updateIniSection(
 					iniFile,
@@ -176,11 +197,7 @@ async function configureAwsConfigProfile(
 		}
 
 		// LocalStack profile does not exist: create it.
-		// check if dnsResolveCheck is successful
-		const isDnsResolved = await dnsResolveCheck(outputChannel);
-		const endpointUrl = isDnsResolved
-			? `http://localhost.localstack.cloud:${DEFAULT_PORT}`
-			: `http://127.0.0.1:${DEFAULT_PORT}`;
+		const endpointUrl = await getEndpointUrl(outputChannel);
 
 		const updatedIniFile = updateIniSection(
 			iniFile,
@@ -297,6 +314,10 @@ export async function configureAwsProfiles(options: {
 	awsDirectory?: string;
 	forceOverride?: boolean; // for testing purposes
 	notifyNoChangesMade?: boolean;
+	/**
+	 * Leaves a missing profile alone, e.g. when only checking the profile after the endpoint settings changed.
+	 */
+	skipIfMissing?: boolean;
 	origin?: "manual_trigger" | "extension_startup";
 	outputChannel?: LogOutputChannel;
 }) {
@@ -371,6 +392,8 @@ export async function configureAwsProfiles(options: {
 				overrideDecision = await overrideSelection(filesToModify, false);
 			}
 		}
+	} else if (options.skipIfMissing) {
+		return;
 	} else {
 		// we need to create it
 		overrideDecision = "Override";
@@ -0,0 +1,220 @@
+import path from "node:path";
+
+import type { CancellationToken, LogOutputChannel } from "vscode";
+import { workspace } from "vscode";
+import * as z from "zod/v4-mini";
+
+import {
+	getContainerCommand,
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { exec } from "./exec.ts";
+import type { ComposeService, LocalStackInstance } from "./instances.ts";
+import { spawn } from "./spawn.ts";
+import type { SpawnOptions } from "./spawn.ts";
+
+/**
+ * Containers with this label are considered LocalStack containers, regardless of their image.
+ */
+export const LOCALSTACK_CONTAINER_LABEL = "cloud.localstack.toolkit";
+
+/**
+ * Matches `localstack/localstack*` images, from any registry, ignoring the tag or digest.
+ */
+const LOCALSTACK_IMAGE_REGEX =
+	/(?:^|\/)localstack\/localstack[^/:@]*(?:[:@][^/]*)?$/;
+
+const GATEWAY_PORT = "4566/tcp";
+
+const ContainerInspectSchema = z.array(
+	z.object({
+		Name: z.string(),
+		Config: z.object({
+			Image: z.string(),
+			Labels: z.nullable(z.record(z.string(), z.string())),
+		}),
+		HostConfig: z.object({
+			PortBindings: z.nullable(
+				z.record(
+					z.string(),
+					z.nullable(z.array(z.object({ HostPort: z.string() }))),
+				),
+			),
+		}),
+	}),
+);
+
+/**
+ * Returns the Docker Compose service of a container, if its project lives in one of the workspace folders.
+ */
+function getWorkspaceComposeService(
+	labels: Record<string, string>,
+): ComposeService | undefined {
+	const project = labels["com.docker.compose.project"];
+	const service = labels["com.docker.compose.service"];
+	const workingDir = labels["com.docker.compose.project.working_dir"];
+	if (!project || !service || !workingDir) {
+		return;
+	}
+
+	const isInWorkspace = workspace.workspaceFolders?.some((folder) => {
+		const relative = path.relative(folder.uri.fsPath, workingDir);
+		return !relative.startsWith("..") && !path.isAbsolute(relative);
+	});
+	if (!isInWorkspace) {
+		return;
+	}
+
+	return {
+		project,
+		service,
+		workingDir,
+		configFiles: (labels["com.docker.compose.project.config_files"] ?? "")
+			.split(",")
+			.filter((file) => file !== ""),
+	};
+}
+
+/**
+ * Finds the LocalStack containers, running or not, by image (`localstack/localstack*`)
+ * or by the {@link LOCALSTACK_CONTAINER_LABEL} label.
+ *
+ * Containers without a published gateway port can't be reached and are skipped.
+ *
+ * @param excludedContainerNames - Containers already managed as another instance.
+ */
+export async function discoverLocalStackContainers(
+	outputChannel: LogOutputChannel,
+	excludedContainerNames: string[],
+): Promise<LocalStackInstance[]> {
+	try {
+		const command = getContainerCommand();
+		const env = getDockerProcessEnvironment();
+		const { stdout: ids } = await exec(
+			`${command} ps --all --quiet --no-trunc`,
+			{
+				env,
+			},
+		);
+		const containerIds = ids.split("\n").filter((id) => id.trim() !== "");
+		if (containerIds.length === 0) {
+			return [];
+		}
+
+		const { stdout } = await exec(
+			`${command} inspect ${containerIds.join(" ")}`,
+			{
+				env,
+			},
+		);
+		const parsed = ContainerInspectSchema.safeParse(JSON.parse(stdout));
+		if (!parsed.success) {
+			throw new Error(
+				`Could not parse "docker inspect" output: ${JSON.stringify(z.treeifyError(parsed.error))}`,
+			);
+		}
+
+		const instances: LocalStackInstance[] = [];
+		for (const container of parsed.data) {
+			const containerName = container.Name.replace(/^\//, "");
+			const labels = container.Config.Labels ?? {};
+			const isLocalStack =
+				LOCALSTACK_IMAGE_REGEX.test(container.Config.Image) ||
+				LOCALSTACK_CONTAINER_LABEL in labels;
+			if (!isLocalStack || excludedContainerNames.includes(containerName)) {
+				continue;
+			}
+
+			const hostPort =
+				container.HostConfig.PortBindings?.[GATEWAY_PORT]?.[0]?.HostPort;
+			if (!hostPort) {
+				outputChannel.trace(
+					`[container-discovery]: Skipping ${containerName}, the gateway port is not published`,
+				);
+				continue;
+			}
+
+			instances.push({
+				name: containerName,
+				containerName,
+				port: Number(hostPort),
+				image: container.Config.Image,
+				discovered: true,
+				compose: getWorkspaceComposeService(labels),
+			});
+		}
+		return instances;
+	} catch (error) {
+		outputChannel.debug(
+			`[container-discovery]: Failed to discover containers: ${String(error)}`,
+		);
+		return [];
+	}
+}
+
+/**
+ * The values come from the container labels, so the arguments are passed to Docker without a shell.
+ */
+function getComposeArgs(compose: ComposeService): string[] {
+	return [
+		"compose",
+		"--project-name",
+		compose.project,
+		"--project-directory",
+		compose.workingDir,
+		...compose.configFiles.flatMap((file) => ["--file", file]),
+	];
+}
+
+interface ContainerCommandOptions {
+	outputChannel: LogOutputChannel;
+	cancellationToken?: CancellationToken;
+	onStderr?: SpawnOptions["onStderr"];
+}
+
+/**
+ * Starts a discovered container, through Docker Compose if it belongs to a workspace project.
+ */
+export async function startDiscoveredContainer(
+	instance: LocalStackInstance,
+	options: ContainerCommandOptions,
+) {
+	const args = instance.compose
+		? [
+				...getComposeArgs(instance.compose),
+				"up",
+				"--detach",
+				instance.compose.service,
+			]
+		: ["start", instance.containerName];
+
+	return spawn(readContainerRuntimeConfiguration().binary, args, {
+		outputChannel: options.outputChannel,
+		outputLabel: "docker.start",
+		cancellationToken: options.cancellationToken,
+		environment: getDockerProcessEnvironment(),
+		shell: false,
+		onStderr: options.onStderr,
+	});
+}
+
+/**
+ * Stops a discovered container, through Docker Compose if it belongs to a workspace project.
+ */
+export async function stopDiscoveredContainer(
+	instance: LocalStackInstance,
+	options: ContainerCommandOptions,
+) {
+	const args = instance.compose
+		? [...getComposeArgs(instance.compose), "stop", instance.compose.service]
+		: ["stop", instance.containerName];
+
+	return spawn(readContainerRuntimeConfiguration().binary, args, {
+		outputChannel: options.outputChannel,
+		outputLabel: "docker.stop",
+		cancellationToken: options.cancellationToken,
+		environment: getDockerProcessEnvironment(),
+		shell: false,
+	});
+}
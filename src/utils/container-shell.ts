@@ -0,0 +1,154 @@
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+
+import { EventEmitter } from "vscode";
+import type { LogOutputChannel, Pseudoterminal } from "vscode";
+
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+
+/**
+ * What to do with a chunk of terminal input, see {@link processShellInput}.
+ */
+export interface ShellInput {
+	/**
+	 * The line being typed, not sent to the shell yet.
+	 */
+	line: string;
+	/**
+	 * Written back to the terminal, since the shell doesn't echo without a TTY.
+	 */
+	echo: string;
+	/**
+	 * Sent to the shell.
+	 */
+	send: string;
+	/**
+	 * Whether Ctrl+D was pressed on an empty line.
+	 */
+	eof: boolean;
+}
+
+/**
+ * Edits the current line with the given terminal input.
+ *
+ * `docker exec` can't allocate a TTY for a Pseudoterminal, so the shell gets its input
+ * line by line, and typing, backspace and Ctrl+C are handled here.
+ */
+export function processShellInput(line: string, data: string): ShellInput {
+	const result: ShellInput = { line, echo: "", send: "", eof: false };
+	// Escape sequences such as arrow keys can't be handled line by line.
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: matches escape sequences
+	for (const char of data.replace(/\x1b(?:\[[0-9;]*[A-Za-z~]|O.)/g, "")) {
+		switch (char) {
+			case "\r": {
+				result.echo += "\r\n";
+				result.send += `${result.line}\n`;
+				result.line = "";
+				break;
+			}
+			case "\x7f": {
+				if (result.line.length > 0) {
+					result.line = result.line.slice(0, -1);
+					result.echo += "\b \b";
+				}
+				break;
+			}
+			case "\x03": {
+				// Discards the line. Running commands can't be interrupted without a TTY.
+				result.echo += "^C\r\n";
+				result.send += "\n";
+				result.line = "";
+				break;
+			}
+			case "\x04": {
+				if (result.line === "") {
+					result.eof = true;
+					return result;
+				}
+				break;
+			}
+			default: {
+				// Ignores the other control characters.
+				if (char >= " ") {
+					result.line += char;
+					result.echo += char;
+				}
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Opens a shell in the given container, through `docker exec`.
+ *
+ * Bash is used when available, `sh` otherwise.
+ */
+export function createContainerShell(
+	containerName: string,
+	outputChannel: LogOutputChannel,
+): Pseudoterminal {
+	const writeEmitter = new EventEmitter<string>();
+	// biome-ignore lint/suspicious/noConfusingVoidType: void is required by Pseudoterminal
+	const closeEmitter = new EventEmitter<number | void>();
+
+	let child: ChildProcess | undefined;
+	let line = "";
+
+	const write = (data: Buffer | string) => {
+		writeEmitter.fire(data.toString().replace(/\r?\n/g, "\r\n"));
+	};
+
+	return {
+		onDidWrite: writeEmitter.event,
+		onDidClose: closeEmitter.event,
+		open() {
+			write(`Connecting to ${containerName}...\n`);
+			child = spawn(
+				readContainerRuntimeConfiguration().binary,
+				[
+					"exec",
+					"--interactive",
+					containerName,
+					"sh",
+					"-c",
+					"if command -v bash >/dev/null; then exec bash -i; else exec sh -i; fi",
+				],
+				{ stdio: "pipe", env: getDockerProcessEnvironment() },
+			);
+			child.stdout?.on("data", write);
+			child.stderr?.on("data", write);
+			child.on("error", (error) => {
+				outputChannel.error(`[container-shell]: ${String(error)}`);
+				write(`${String(error)}\n`);
+			});
+			child.on("close", (code) => {
+				outputChannel.debug(
+					`[container-shell]: Process ended (exit code = ${code})`,
+				);
+				closeEmitter.fire(code ?? undefined);
+			});
+		},
+		handleInput(data) {
+			const input = processShellInput(line, data);
+			line = input.line;
+			if (input.echo) {
+				writeEmitter.fire(input.echo);
+			}
+			if (input.send) {
+				child?.stdin?.write(input.send);
+			}
+			if (input.eof) {
+				child?.stdin?.end();
+			}
+		},
+		close() {
+			child?.kill();
+			writeEmitter.dispose();
+			closeEmitter.dispose();
+		},
+	};
+}
@@ -1,8 +1,14 @@
-import { exec, spawn } from "node:child_process";
+import { execFile, spawn } from "node:child_process";
 
+import { workspace } from "vscode";
 import type { Disposable, LogOutputChannel } from "vscode";
 import * as z from "zod/v4-mini";
 
+import {
+	getDockerProcessEnvironment,
+	isPodman,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
 import { createEmitter } from "./emitter.ts";
 import { JsonLinesStream } from "./json-lines-stream.ts";
 import type { TimeTracker } from "./time-tracker.ts";
@@ -11,7 +17,7 @@ export type ContainerStatus = "running" | "stopping" | "stopped";
 
 export interface ContainerStatusTracker extends Disposable {
 	status(): ContainerStatus;
-	onChange(callback: (status: ContainerStatus) => void): void;
+	onChange(callback: (status: ContainerStatus) => void): Disposable;
 }
 
 /**
@@ -25,14 +31,36 @@ export async function createContainerStatusTracker(
 	let status: ContainerStatus | undefined;
 	const emitter = createEmitter<ContainerStatus>(outputChannel);
 
-	const disposable = listenToContainerStatus(
+	const updateStatus = (newStatus: ContainerStatus) => {
+		if (status !== newStatus) {
+			status = newStatus;
+			void emitter.emit(status);
+		}
+	};
+
+	let disposable = listenToContainerStatus(
 		containerName,
 		outputChannel,
-		(newStatus) => {
-			if (status !== newStatus) {
-				status = newStatus;
-				void emitter.emit(status);
+		updateStatus,
+	);
+
+	const configurationListener = workspace.onDidChangeConfiguration(
+		async (event) => {
+			if (
+				!event.affectsConfiguration("localstack.docker") &&
+				!event.affectsConfiguration("localstack.containerRuntime")
+			) {
+				return;
 			}
+
+			// Follow the container on the newly configured Docker daemon.
+			disposable.dispose();
+			disposable = listenToContainerStatus(
+				containerName,
+				outputChannel,
+				updateStatus,
+			);
+			updateStatus(await getContainerStatus(containerName));
 		},
 	);
 
@@ -49,17 +77,27 @@ export async function createContainerStatusTracker(
 			return status!;
 		},
 		onChange(callback) {
-			emitter.on(callback);
+			const disposable = emitter.on(callback);
 			if (status) {
 				callback(status);
 			}
+			return disposable;
 		},
 		dispose() {
+			configurationListener.dispose();
 			disposable.dispose();
 		},
 	};
 }
 
+/**
+ * A container lifecycle event, from `docker events` or `podman events`.
+ */
+export interface ContainerEvent {
+	action: "start" | "kill" | "die";
+	containerName: string;
+}
+
 const DockerEventsSchema = z.object({
 	Action: z.enum(["start", "kill", "die"]),
 	Actor: z.object({
@@ -69,6 +107,51 @@ const DockerEventsSchema = z.object({
 	}),
 });
 
+const PodmanEventsSchema = z.object({
+	Status: z.enum(["start", "kill", "died"]),
+	Name: z.string(),
+});
+
+/**
+ * Parses an event of `docker events --format json` or `podman events --format json`.
+ *
+ * @returns The event, or `undefined` if it isn't a container start, kill or die event.
+ */
+export function parseContainerEvent(json: unknown): ContainerEvent | undefined {
+	const docker = DockerEventsSchema.safeParse(json);
+	if (docker.success) {
+		return {
+			action: docker.data.Action,
+			containerName: docker.data.Actor.Attributes.name,
+		};
+	}
+
+	const podman = PodmanEventsSchema.safeParse(json);
+	if (podman.success) {
+		return {
+			action: podman.data.Status === "died" ? "die" : podman.data.Status,
+			containerName: podman.data.Name,
+		};
+	}
+}
+
+/**
+ * Returns the `events` filters matching container start, kill and die events.
+ */
+function getContainerEventFilters(containerName: string): string[] {
+	const dieEvent = isPodman() ? "died" : "die";
+	return [
+		"--filter",
+		`container=${containerName}`,
+		"--filter",
+		"event=start",
+		"--filter",
+		"event=kill",
+		"--filter",
+		`event=${dieEvent}`,
+	];
+}
+
 function listenToContainerStatus(
 	containerName: string,
 	outputChannel: LogOutputChannel,
@@ -86,19 +169,16 @@ function listenToContainerStatus(
 		);
 
 		try {
-			dockerEvents = spawn("docker", [
-				"events",
-				"--filter",
-				`container=${containerName}`,
-				"--filter",
-				"event=start",
-				"--filter",
-				"event=kill",
-				"--filter",
-				"event=die",
-				"--format",
-				"json",
-			]);
+			dockerEvents = spawn(
+				readContainerRuntimeConfiguration().binary,
+				[
+					"events",
+					...getContainerEventFilters(containerName),
+					"--format",
+					"json",
+				],
+				{ env: getDockerProcessEnvironment() },
+			);
 
 			dockerEvents.on("error", (error) => {
 				outputChannel.debug(
@@ -132,18 +212,14 @@ function listenToContainerStatus(
 
 			const jsonlStream = new JsonLinesStream();
 			jsonlStream.onJson((json) => {
-				const parsed = DockerEventsSchema.safeParse(json);
-				if (!parsed.success) {
-					return;
-				}
-
-				if (parsed.data.Actor.Attributes.name !== containerName) {
+				const event = parseContainerEvent(json);
+				if (!event || event.containerName !== containerName) {
 					return;
 				}
 
-				outputChannel.debug(`[container.status]: ${parsed.data.Action}`);
+				outputChannel.debug(`[container.status]: ${event.action}`);
 
-				switch (parsed.data.Action) {
+				switch (event.action) {
 					case "start":
 						onStatusChange("running");
 						break;
@@ -200,8 +276,10 @@ async function getContainerStatus(
 		// timeout after 1s
 		setTimeout(() => resolve("stopped"), 1_000);
 
-		exec(
-			`docker inspect --format {{.State.Status}} ${containerName}`,
+		execFile(
+			readContainerRuntimeConfiguration().binary,
+			["inspect", "--format", "{{.State.Status}}", containerName],
+			{ env: getDockerProcessEnvironment() },
 			(error, stdout) => {
 				if (error) {
 					resolve("stopped");
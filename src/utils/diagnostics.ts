@@ -0,0 +1,189 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { extensions, version, workspace } from "vscode";
+import type { LogOutputChannel, Uri } from "vscode";
+
+import { execLocalStack } from "./cli.ts";
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { execFile } from "./exec.ts";
+import { getInstanceEndpoint } from "./instances.ts";
+import type { LocalStackInstance } from "./instances.ts";
+
+/**
+ * A file of the diagnostics bundle.
+ */
+export interface DiagnosticsFile {
+	name: string;
+	content: string;
+}
+
+const REDACTED = "<redacted>";
+
+/**
+ * Values of settings, environment variables and JSON keys with these words in their name are redacted.
+ */
+const SECRET_ASSIGNMENT_REGEX =
+	/\b([\w.-]*(?:token|secret|password|passwd|api_?key|access_?key|credential)[\w.-]*)(["']?\s*[=:]\s*["']?)([^\s"',}]+)/gi;
+
+const SECRET_VALUE_REGEXES = [
+	// LocalStack auth tokens, e.g. `ls-abcd1234-...`.
+	/\bls-[A-Za-z0-9]+(?:-[A-Za-z0-9]+){3,}\b/g,
+	// AWS access key ids.
+	/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+	// Bearer and basic authorization headers.
+	/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g,
+];
+
+/**
+ * Redacts auth tokens, credentials and other secrets from the text.
+ */
+export function redactSecrets(text: string): string {
+	let redacted = text.replaceAll(
+		SECRET_ASSIGNMENT_REGEX,
+		(_, name: string, separator: string) => `${name}${separator}${REDACTED}`,
+	);
+	for (const regex of SECRET_VALUE_REGEXES) {
+		redacted = redacted.replaceAll(regex, (_, scheme?: string) =>
+			typeof scheme === "string" ? `${scheme} ${REDACTED}` : REDACTED,
+		);
+	}
+	return redacted;
+}
+
+/**
+ * Keeps the reason a part of the bundle could not be collected in its place.
+ */
+async function collect(
+	name: string,
+	collector: () => Promise<string>,
+): Promise<DiagnosticsFile> {
+	try {
+		return { name, content: await collector() };
+	} catch (error) {
+		return {
+			name,
+			content: `Failed to collect ${name}: ${error instanceof Error ? error.message : String(error)}\n`,
+		};
+	}
+}
+
+async function fetchText(url: string): Promise<string> {
+	const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+	if (!response.ok) {
+		throw new Error(`${url} responded with ${response.status}`);
+	}
+	const text = await response.text();
+	try {
+		return `${JSON.stringify(JSON.parse(text), null, 2)}\n`;
+	} catch {
+		return text;
+	}
+}
+
+async function readExtensionLogs(logUri: Uri): Promise<DiagnosticsFile[]> {
+	const files = await readdir(logUri.fsPath).catch(() => []);
+	return Promise.all(
+		files
+			.filter((file) => file.endsWith(".log"))
+			.map((file) =>
+				collect(`extension/${file}`, () =>
+					readFile(path.join(logUri.fsPath, file), "utf-8"),
+				),
+			),
+	);
+}
+
+function getEnvironmentSummary(instance: LocalStackInstance): string {
+	const extensionVersion = (
+		extensions.getExtension("localstack.localstack")?.packageJSON as {
+			version?: string;
+		}
+	)?.version;
+	return `${JSON.stringify(
+		{
+			extensionVersion,
+			vscodeVersion: version,
+			platform: `${os.platform()} ${os.release()} (${os.arch()})`,
+			instance,
+			settings: workspace.getConfiguration("localstack"),
+		},
+		null,
+		2,
+	)}\n`;
+}
+
+/**
+ * Collects what is needed to investigate LocalStack issues, with secrets redacted.
+ * Parts that can't be collected, e.g. while LocalStack is stopped, explain why instead.
+ */
+export async function collectDiagnostics(options: {
+	instance: LocalStackInstance;
+	logUri: Uri;
+	outputChannel: LogOutputChannel;
+}): Promise<DiagnosticsFile[]> {
+	const { instance, logUri, outputChannel } = options;
+	const endpoint = getInstanceEndpoint(instance);
+	const { binary } = readContainerRuntimeConfiguration();
+	const env = getDockerProcessEnvironment();
+
+	const files = await Promise.all([
+		collect("environment.json", () =>
+			Promise.resolve(getEnvironmentSummary(instance)),
+		),
+		collect("localstack-diagnose.json", () =>
+			fetchText(`${endpoint}/_localstack/diagnose`),
+		),
+		collect("localstack-info.json", () =>
+			fetchText(`${endpoint}/_localstack/info`),
+		),
+		collect("container.log", async () => {
+			// The container logs its stderr to the stderr of the command.
+			const { stdout, stderr } = await execFile(
+				binary,
+				["logs", "--tail", "1000", "--timestamps", instance.containerName],
+				{ env, maxBuffer: 32 * 1024 * 1024 },
+			);
+			return `${stdout}${stderr}`;
+		}),
+		collect("cli-version.txt", async () => {
+			const { stdout } = await execLocalStack(["--version"], {
+				outputChannel,
+			});
+			return stdout;
+		}),
+		collect("license-info.txt", async () => {
+			const { stdout } = await execLocalStack(["license", "info"], {
+				outputChannel,
+			});
+			return stdout;
+		}),
+		collect("docker-version.txt", async () => {
+			const { stdout } = await execFile(binary, ["version"], { env });
+			return stdout;
+		}),
+		readExtensionLogs(logUri),
+	]);
+
+	return files
+		.flat()
+		.map(({ name, content }) => ({ name, content: redactSecrets(content) }));
+}
+
+/**
+ * Writes the files of the bundle to the given directory.
+ */
+export async function writeDiagnostics(
+	directory: string,
+	files: DiagnosticsFile[],
+): Promise<void> {
+	for (const { name, content } of files) {
+		const file = path.join(directory, name);
+		await mkdir(path.dirname(file), { recursive: true });
+		await writeFile(file, content);
+	}
+}
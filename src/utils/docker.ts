@@ -0,0 +1,237 @@
+import path from "node:path";
+
+import type { LogOutputChannel } from "vscode";
+import { workspace } from "vscode";
+import * as z from "zod/v4-mini";
+
+import { execFile } from "./exec.ts";
+
+/**
+ * The Docker daemon to use, as configured in the `localstack.docker.*` settings.
+ */
+export interface DockerConfiguration {
+	/**
+	 * The Docker context (or Podman connection), passed as `DOCKER_CONTEXT` (or `CONTAINER_CONNECTION`).
+	 */
+	context: string | undefined;
+	/**
+	 * The Docker host, passed as `DOCKER_HOST` (or `CONTAINER_HOST`). Takes precedence over the context.
+	 */
+	host: string | undefined;
+}
+
+export function readDockerConfiguration(): DockerConfiguration {
+	const config = workspace.getConfiguration("localstack.docker");
+	return {
+		context: config.get<string>("context")?.trim() || undefined,
+		host: config.get<string>("host")?.trim() || undefined,
+	};
+}
+
+/**
+ * The container runtime, as configured in the `localstack.containerRuntime.*` settings.
+ */
+export interface ContainerRuntimeConfiguration {
+	/**
+	 * The runtime binary, e.g. `docker`, `podman` or an absolute path.
+	 */
+	binary: string;
+	/**
+	 * The socket of the runtime, e.g. `/run/user/1000/podman/podman.sock`.
+	 */
+	socket: string | undefined;
+}
+
+export function readContainerRuntimeConfiguration(): ContainerRuntimeConfiguration {
+	const config = workspace.getConfiguration("localstack.containerRuntime");
+	return {
+		binary: config.get<string>("binary")?.trim() || "docker",
+		socket: config.get<string>("socket")?.trim() || undefined,
+	};
+}
+
+/**
+ * Returns the command used for all container interactions, quoted for use in a shell.
+ */
+export function getContainerCommand(): string {
+	const { binary } = readContainerRuntimeConfiguration();
+	return binary.includes(" ") ? `"${binary}"` : binary;
+}
+
+/**
+ * Whether the configured runtime is Podman, whose CLI is mostly compatible with Docker's
+ * but differs in its environment variables and events.
+ */
+export function isPodman(): boolean {
+	const { binary } = readContainerRuntimeConfiguration();
+	return path.basename(binary).startsWith("podman");
+}
+
+/**
+ * Returns the socket as a URL, e.g. `unix:///run/user/1000/podman/podman.sock`.
+ */
+function getSocketUrl(socket: string): string {
+	return socket.includes("://") ? socket : `unix://${socket}`;
+}
+
+/**
+ * Returns the environment variables that make the container runtime, Docker Compose
+ * and the LocalStack CLI use the configured runtime and daemon.
+ */
+export function getDockerEnvironment(): Record<string, string> {
+	const { binary, socket } = readContainerRuntimeConfiguration();
+	const { context, host } = readDockerConfiguration();
+	const dockerHost = host ?? (socket && getSocketUrl(socket));
+
+	const environment: Record<string, string> = {};
+	if (binary !== "docker") {
+		// Makes the LocalStack CLI use the same runtime.
+		environment.DOCKER_CMD = binary;
+	}
+	if (socket) {
+		// The socket mounted into the LocalStack container.
+		environment.DOCKER_SOCK = socket.replace(/^unix:\/\//, "");
+	}
+
+	if (isPodman()) {
+		if (dockerHost) {
+			environment.CONTAINER_HOST = dockerHost;
+			environment.DOCKER_HOST = dockerHost;
+		} else if (context) {
+			environment.CONTAINER_CONNECTION = context;
+		}
+	} else if (dockerHost) {
+		environment.DOCKER_HOST = dockerHost;
+	} else if (context) {
+		environment.DOCKER_CONTEXT = context;
+	}
+
+	return environment;
+}
+
+/**
+ * Returns the environment of the extension host, pointed at the configured runtime and daemon.
+ */
+export function getDockerProcessEnvironment(): NodeJS.ProcessEnv {
+	return { ...process.env, ...getDockerEnvironment() };
+}
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "::1", "[::1]"];
+
+/**
+ * Returns the hostname of a remote Docker host, e.g. `tcp://10.0.0.5:2376` or `ssh://user@vm`.
+ *
+ * @returns The hostname, or `undefined` if the Docker host is local (e.g. a unix socket).
+ */
+export function getRemoteDockerHostname(
+	dockerHost: string | undefined,
+): string | undefined {
+	if (!dockerHost) {
+		return;
+	}
+
+	let url: URL;
+	try {
+		url = new URL(dockerHost);
+	} catch {
+		return;
+	}
+
+	if (!["tcp:", "ssh:", "http:", "https:"].includes(url.protocol)) {
+		return;
+	}
+	if (url.hostname === "" || LOCAL_HOSTNAMES.includes(url.hostname)) {
+		return;
+	}
+	return url.hostname;
+}
+
+const PodmanConnectionsSchema = z.array(
+	z.object({
+		Name: z.string(),
+		URI: z.string(),
+	}),
+);
+
+async function inspectContextHost(
+	context: string,
+): Promise<string | undefined> {
+	// The context comes from the settings, so it is passed as an argument rather than through a shell.
+	const { binary } = readContainerRuntimeConfiguration();
+
+	if (isPodman()) {
+		const { stdout } = await execFile(binary, [
+			"system",
+			"connection",
+			"list",
+			"--format",
+			"json",
+		]);
+		const parsed = PodmanConnectionsSchema.safeParse(JSON.parse(stdout));
+		if (!parsed.success) {
+			throw new Error(
+				`Could not parse "podman system connection list" output: ${JSON.stringify(z.treeifyError(parsed.error))}`,
+			);
+		}
+		return parsed.data.find(({ Name }) => Name === context)?.URI;
+	}
+
+	const { stdout } = await execFile(binary, [
+		"context",
+		"inspect",
+		context,
+		"--format",
+		"{{.Endpoints.docker.Host}}",
+	]);
+	return stdout.trim() || undefined;
+}
+
+/**
+ * The Docker host of each runtime binary and context, see {@link resolveDockerHost}.
+ */
+const contextHosts = new Map<string, string | undefined>();
+
+function getContextKey(context: string): string {
+	return `${readContainerRuntimeConfiguration().binary}/${context}`;
+}
+
+/**
+ * Resolves the Docker host of the configured context, so that {@link getDockerHost}
+ * can return it synchronously.
+ */
+export async function resolveDockerHost(
+	outputChannel: LogOutputChannel,
+): Promise<void> {
+	const { context, host } = readDockerConfiguration();
+	if (host || !context || contextHosts.has(getContextKey(context))) {
+		return;
+	}
+
+	try {
+		contextHosts.set(getContextKey(context), await inspectContextHost(context));
+	} catch (error) {
+		outputChannel.warn(
+			`[docker]: Could not inspect the Docker context "${context}": ${String(error)}`,
+		);
+		contextHosts.set(getContextKey(context), undefined);
+	}
+}
+
+/**
+ * Returns the Docker host in use: the configured host or socket, the host of the configured context,
+ * or the `DOCKER_HOST` (or `CONTAINER_HOST`) of the extension host.
+ */
+export function getDockerHost(): string | undefined {
+	const { context, host } = readDockerConfiguration();
+	const { socket } = readContainerRuntimeConfiguration();
+	if (host) {
+		return host;
+	}
+	if (socket) {
+		return getSocketUrl(socket);
+	}
+	if (context) {
+		return contextHosts.get(getContextKey(context));
+	}
+	return isPodman() ? process.env.CONTAINER_HOST : process.env.DOCKER_HOST;
+}
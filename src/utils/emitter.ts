@@ -1,18 +1,23 @@
-import type { LogOutputChannel } from "vscode";
+import type { Disposable, LogOutputChannel } from "vscode";
 
 export type Callback<T> = (value: T) => Promise<void> | void;
 
 export interface Emitter<T> {
-	on(callback: Callback<T>): void;
+	on(callback: Callback<T>): Disposable;
 	emit(value: T): Promise<void>;
 }
 
 export function createEmitter<T>(outputChannel: LogOutputChannel): Emitter<T> {
-	const callbacks: Callback<T>[] = [];
+	let callbacks: Callback<T>[] = [];
 
 	return {
 		on(callback) {
 			callbacks.push(callback);
+			return {
+				dispose() {
+					callbacks = callbacks.filter((existing) => existing !== callback);
+				},
+			};
 		},
 		async emit(value) {
 			for (const callback of callbacks) {
@@ -0,0 +1,140 @@
+import { ConfigurationTarget, workspace } from "vscode";
+
+import { parseLogEntry } from "./localstack-logs.ts";
+
+export interface ErrorAlertsConfiguration {
+	enabled: boolean;
+	/**
+	 * Regular expressions, an empty list alerts on all errors.
+	 */
+	patterns: string[];
+	/**
+	 * Regular expressions of errors that don't raise alerts.
+	 */
+	mutedPatterns: string[];
+}
+
+export function readErrorAlertsConfiguration(): ErrorAlertsConfiguration {
+	const config = workspace.getConfiguration("localstack.logs.errorAlerts");
+	return {
+		enabled: config.get<boolean>("enabled", false),
+		patterns: config.get<string[]>("patterns", []),
+		mutedPatterns: config.get<string[]>("mutedPatterns", []),
+	};
+}
+
+export async function muteErrorAlertPattern(pattern: string): Promise<void> {
+	const { mutedPatterns } = readErrorAlertsConfiguration();
+	if (mutedPatterns.includes(pattern)) {
+		return;
+	}
+	await workspace
+		.getConfiguration("localstack.logs.errorAlerts")
+		.update(
+			"mutedPatterns",
+			[...mutedPatterns, pattern],
+			ConfigurationTarget.Global,
+		);
+}
+
+function toRegExp(pattern: string): RegExp | undefined {
+	try {
+		return new RegExp(pattern);
+	} catch {
+		// Invalid patterns are ignored rather than breaking all alerts.
+		return undefined;
+	}
+}
+
+function escapeRegExp(text: string): string {
+	return text.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export interface ErrorAlert {
+	message: string;
+	/**
+	 * The pattern to mute similar errors with: the configured pattern that matched,
+	 * or the escaped message of the line.
+	 */
+	pattern: string;
+}
+
+export type ErrorAlertMatcher = (text: string) => ErrorAlert | undefined;
+
+/**
+ * Returns the alert for an `ERROR` (or `CRITICAL`) log line that matches one of the patterns
+ * and none of the muted patterns.
+ *
+ * The patterns are compiled once, since every log line is matched against them.
+ */
+export function createErrorAlertMatcher(
+	patterns: string[],
+	mutedPatterns: string[],
+): ErrorAlertMatcher {
+	const compiledPatterns = patterns.flatMap((pattern) => {
+		const regExp = toRegExp(pattern);
+		return regExp ? [{ pattern, regExp }] : [];
+	});
+	const compiledMutedPatterns = mutedPatterns
+		.map(toRegExp)
+		.filter((regExp) => regExp !== undefined);
+
+	return (text) => {
+		const { level, message } = parseLogEntry(text);
+		if (level !== "ERROR") {
+			return;
+		}
+		if (compiledMutedPatterns.some((regExp) => regExp.test(text))) {
+			return;
+		}
+
+		if (patterns.length === 0) {
+			return { message, pattern: escapeRegExp(message) };
+		}
+		const match = compiledPatterns.find(({ regExp }) => regExp.test(text));
+		return match && { message, pattern: match.pattern };
+	};
+}
+
+export interface RateLimiter {
+	/**
+	 * Whether an alert with the given key can be shown now.
+	 */
+	take(key: string, now?: number): boolean;
+}
+
+/**
+ * Allows at most `limit` alerts per `intervalMs`, and the same alert once per `repeatIntervalMs`,
+ * so that a crash loop doesn't flood the notifications.
+ */
+export function createRateLimiter(options: {
+	limit: number;
+	intervalMs: number;
+	repeatIntervalMs: number;
+}): RateLimiter {
+	const { limit, intervalMs, repeatIntervalMs } = options;
+	let shownAt: number[] = [];
+	const lastShownByKey = new Map<string, number>();
+
+	return {
+		take(key, now = Date.now()) {
+			for (const [shownKey, time] of lastShownByKey) {
+				if (now - time >= repeatIntervalMs) {
+					lastShownByKey.delete(shownKey);
+				}
+			}
+			const lastShown = lastShownByKey.get(key);
+			if (lastShown !== undefined && now - lastShown < repeatIntervalMs) {
+				return false;
+			}
+			shownAt = shownAt.filter((time) => now - time < intervalMs);
+			if (shownAt.length >= limit) {
+				return false;
+			}
+
+			shownAt.push(now);
+			lastShownByKey.set(key, now);
+			return true;
+		},
+	};
+}
@@ -2,3 +2,5 @@ import * as childProcess from "node:child_process";
 import * as util from "node:util";
 
 export const exec = util.promisify(childProcess.exec);
+
+export const execFile = util.promisify(childProcess.execFile);
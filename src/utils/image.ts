@@ -0,0 +1,233 @@
+import type { CancellationToken, LogOutputChannel } from "vscode";
+import { workspace } from "vscode";
+import * as z from "zod/v4-mini";
+
+import { LOCALSTACK_DOCKER_IMAGE_NAME } from "../constants.ts";
+
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { execFile } from "./exec.ts";
+import { spawn } from "./spawn.ts";
+
+/**
+ * The LocalStack image, as configured in the `localstack.image.*` settings.
+ */
+export interface ImageConfiguration {
+	/**
+	 * E.g. `localstack/localstack-pro` or `localstack/localstack` for the Community image.
+	 */
+	repository: string;
+	/**
+	 * E.g. `latest` or a pinned version such as `4.4`.
+	 */
+	tag: string;
+}
+
+/**
+ * The image references accepted by Docker, e.g. `localhost:5000/localstack/localstack-pro:4.4`.
+ */
+export const IMAGE_REFERENCE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._/:@-]*$/;
+
+const IMAGE_TAG_PATTERN = /^\w[\w.-]*$/;
+
+/**
+ * Invalid values are ignored in favor of the defaults.
+ */
+export function readImageConfiguration(): ImageConfiguration {
+	const config = workspace.getConfiguration("localstack.image");
+	const repository = config.get<string>("repository")?.trim() ?? "";
+	const tag = config.get<string>("tag")?.trim() ?? "";
+	return {
+		repository: IMAGE_REFERENCE_PATTERN.test(repository)
+			? repository
+			: LOCALSTACK_DOCKER_IMAGE_NAME,
+		tag: IMAGE_TAG_PATTERN.test(tag) ? tag : "latest",
+	};
+}
+
+/**
+ * Returns the configured LocalStack image, e.g. `localstack/localstack-pro:latest`.
+ */
+export function getLocalStackImage(): string {
+	const { repository, tag } = readImageConfiguration();
+	return `${repository}:${tag}`;
+}
+
+const InspectSchema = z.array(
+	z.object({
+		RepoDigests: z.nullable(z.array(z.string())),
+		Config: z.object({
+			Env: z.array(z.string()),
+		}),
+	}),
+);
+
+interface LocalImage {
+	/**
+	 * The `LOCALSTACK_BUILD_VERSION` of the image, e.g. `4.4.0`.
+	 */
+	version: string | undefined;
+	/**
+	 * The registry digests of the image, e.g. `sha256:...`.
+	 */
+	digests: string[];
+}
+
+async function inspectImage(
+	image: string,
+	outputChannel: LogOutputChannel,
+): Promise<LocalImage | undefined> {
+	try {
+		const { stdout } = await execFile(
+			readContainerRuntimeConfiguration().binary,
+			["inspect", image],
+			{ env: getDockerProcessEnvironment() },
+		);
+		const data: unknown = JSON.parse(stdout);
+		const parsed = InspectSchema.safeParse(data);
+		if (!parsed.success) {
+			throw new Error(
+				`Could not parse "docker inspect" output: ${JSON.stringify(z.treeifyError(parsed.error))}`,
+			);
+		}
+		const [inspected] = parsed.data;
+		if (!inspected) {
+			return;
+		}
+
+		const version = inspected.Config.Env.find((line) =>
+			line.startsWith("LOCALSTACK_BUILD_VERSION="),
+		)?.slice("LOCALSTACK_BUILD_VERSION=".length);
+		const digests = (inspected.RepoDigests ?? []).map((repoDigest) =>
+			repoDigest.slice(repoDigest.indexOf("@") + 1),
+		);
+		return { version: version || undefined, digests };
+	} catch (error) {
+		outputChannel.error("Could not inspect LocalStack docker image");
+		outputChannel.error(error instanceof Error ? error : String(error));
+		return undefined;
+	}
+}
+
+export async function getDockerImageSemverVersion(
+	outputChannel: LogOutputChannel,
+): Promise<string | undefined> {
+	const localImage = await inspectImage(getLocalStackImage(), outputChannel);
+	return localImage?.version;
+}
+
+/**
+ * Pulls the configured LocalStack image.
+ *
+ * @returns Whether the image was pulled successfully.
+ */
+export async function pullDockerImage(
+	outputChannel: LogOutputChannel,
+	cancellationToken: CancellationToken,
+): Promise<boolean> {
+	try {
+		await spawn(
+			readContainerRuntimeConfiguration().binary,
+			["pull", getLocalStackImage()],
+			{
+				outputChannel,
+				outputLabel: "docker.pull",
+				cancellationToken,
+				environment: getDockerProcessEnvironment(),
+				shell: false,
+			},
+		);
+		return true;
+	} catch (error) {
+		outputChannel.error("Could not pull LocalStack docker image");
+		outputChannel.error(error instanceof Error ? error : String(error));
+		return false;
+	}
+}
+
+const DockerHubTagSchema = z.object({
+	digest: z.string(),
+});
+
+/**
+ * Returns the digest the tag currently points to on Docker Hub.
+ *
+ * @returns The digest, or `undefined` if the image isn't hosted on Docker Hub or the request fails.
+ */
+async function fetchDockerHubDigest(
+	{ repository, tag }: ImageConfiguration,
+	outputChannel: LogOutputChannel,
+): Promise<string | undefined> {
+	const [namespace, name, ...rest] = repository
+		.replace(/^docker\.io\//, "")
+		.split("/");
+	if (!namespace || !name || rest.length > 0 || namespace.includes(".")) {
+		return;
+	}
+
+	try {
+		const response = await fetch(
+			`https://hub.docker.com/v2/namespaces/${namespace}/repositories/${name}/tags/${tag}`,
+		);
+		if (!response.ok) {
+			throw new Error(`${response.status} ${response.statusText}`);
+		}
+		const parsed = DockerHubTagSchema.safeParse(await response.json());
+		return parsed.success ? parsed.data.digest : undefined;
+	} catch (error) {
+		outputChannel.warn(
+			`[image]: Could not fetch the digest of ${repository}:${tag}: ${String(error)}`,
+		);
+		return;
+	}
+}
+
+/**
+ * Whether a version matches a pinned tag, e.g. `4.4.1` matches `4`, `4.4` and `4.4.1`.
+ */
+export function isVersionMatchingTag(version: string, tag: string): boolean {
+	return version === tag || version.startsWith(`${tag}.`);
+}
+
+export type ImageUpdateStatus =
+	| { status: "missing" }
+	| { status: "outdated"; version: string | undefined }
+	| { status: "up-to-date"; version: string | undefined }
+	| { status: "unknown"; version: string | undefined };
+
+/**
+ * Checks whether the local LocalStack image matches the configured tag.
+ *
+ * Pinned version tags are compared with the local `LOCALSTACK_BUILD_VERSION`,
+ * and the local digest is compared with the one on Docker Hub, since tags move with new releases.
+ */
+export async function checkImageUpdate(
+	outputChannel: LogOutputChannel,
+): Promise<ImageUpdateStatus> {
+	const configuration = readImageConfiguration();
+	const localImage = await inspectImage(getLocalStackImage(), outputChannel);
+	if (!localImage) {
+		return { status: "missing" };
+	}
+
+	const { version, digests } = localImage;
+	const isVersionTag = /^\d+(?:\.\d+)*$/.test(configuration.tag);
+	if (
+		version &&
+		isVersionTag &&
+		!isVersionMatchingTag(version, configuration.tag)
+	) {
+		return { status: "outdated", version };
+	}
+
+	const remoteDigest = await fetchDockerHubDigest(configuration, outputChannel);
+	if (!remoteDigest || digests.length === 0) {
+		return { status: "unknown", version };
+	}
+
+	return digests.includes(remoteDigest)
+		? { status: "up-to-date", version }
+		: { status: "outdated", version };
+}
@@ -0,0 +1,331 @@
+import { isDeepStrictEqual } from "node:util";
+
+import { window, workspace } from "vscode";
+import type { Disposable, LogOutputChannel } from "vscode";
+
+import { discoverLocalStackContainers } from "./container-discovery.ts";
+import { createContainerStatusTracker } from "./container-status.ts";
+import type { ContainerStatusTracker } from "./container-status.ts";
+import { resolveDockerHost } from "./docker.ts";
+import { createEmitter } from "./emitter.ts";
+import {
+	DEFAULT_INSTANCE,
+	getDefaultInstance,
+	getInstanceEndpoint,
+	readConfiguredInstances,
+} from "./instances.ts";
+import type { LocalStackInstance } from "./instances.ts";
+import { createLocalStackStatusTracker } from "./localstack-status.ts";
+import type { LocalStackStatusTracker } from "./localstack-status.ts";
+import {
+	createContainerStatsStream,
+	createResourceUsageTracker,
+} from "./resource-usage.ts";
+import type {
+	ContainerStatsStream,
+	ResourceUsageTracker,
+} from "./resource-usage.ts";
+import { createServicesStatusTracker } from "./services-status.ts";
+import type { ServicesStatusTracker } from "./services-status.ts";
+import type { TimeTracker } from "./time-tracker.ts";
+
+/**
+ * A {@link LocalStackInstance} along with its status trackers.
+ */
+export interface TrackedInstance extends Disposable {
+	instance: LocalStackInstance;
+	containerStatusTracker: ContainerStatusTracker;
+	localStackStatusTracker: LocalStackStatusTracker;
+	servicesStatusTracker: ServicesStatusTracker;
+	resourceUsageTracker: ResourceUsageTracker;
+}
+
+export interface InstanceRegistry extends Disposable {
+	instances(): TrackedInstance[];
+	defaultInstance(): TrackedInstance;
+	get(name: string): TrackedInstance | undefined;
+	/**
+	 * Resolves the instance referenced by a command argument (e.g. a tree item),
+	 * falling back to the default instance when there is no argument.
+	 *
+	 * @returns `undefined` if the referenced instance doesn't exist, e.g. after it was renamed or removed.
+	 */
+	resolve(argument: unknown): TrackedInstance | undefined;
+	onChange(callback: () => void): void;
+	/**
+	 * Looks for new or removed LocalStack containers.
+	 */
+	refresh(): Promise<void>;
+}
+
+async function createTrackedInstance(
+	instance: LocalStackInstance,
+	statsStream: ContainerStatsStream,
+	outputChannel: LogOutputChannel,
+	timeTracker: TimeTracker,
+): Promise<TrackedInstance> {
+	const containerStatusTracker = await createContainerStatusTracker(
+		instance.containerName,
+		outputChannel,
+		timeTracker,
+	);
+
+	const localStackStatusTracker = createLocalStackStatusTracker(
+		containerStatusTracker,
+		outputChannel,
+		timeTracker,
+		() => getInstanceEndpoint(tracked.instance),
+	);
+
+	const servicesStatusTracker = createServicesStatusTracker(
+		localStackStatusTracker,
+		outputChannel,
+		timeTracker,
+		() => getInstanceEndpoint(tracked.instance),
+	);
+
+	const resourceUsageTracker = createResourceUsageTracker(
+		containerStatusTracker,
+		instance.containerName,
+		statsStream,
+		outputChannel,
+	);
+
+	const tracked: TrackedInstance = {
+		instance,
+		containerStatusTracker,
+		localStackStatusTracker,
+		servicesStatusTracker,
+		resourceUsageTracker,
+		dispose() {
+			resourceUsageTracker.dispose();
+			servicesStatusTracker.dispose();
+			localStackStatusTracker.dispose();
+			containerStatusTracker.dispose();
+		},
+	};
+	return tracked;
+}
+
+/**
+ * Returns the user-defined instances, followed by the LocalStack containers found in Docker.
+ */
+async function readOtherInstances(
+	defaultInstance: LocalStackInstance,
+	outputChannel: LogOutputChannel,
+): Promise<LocalStackInstance[]> {
+	const configuredInstances = readConfiguredInstances();
+	const discoveredInstances = await discoverLocalStackContainers(
+		outputChannel,
+		[defaultInstance, ...configuredInstances].map(
+			({ containerName }) => containerName,
+		),
+	);
+
+	const takenNames = [
+		DEFAULT_INSTANCE.name,
+		...configuredInstances.map(({ name }) => name),
+	];
+	return [
+		...configuredInstances,
+		...discoveredInstances.filter(({ name }) => !takenNames.includes(name)),
+	];
+}
+
+/**
+ * Keeps track of the default instance, the user-defined instances and the LocalStack containers
+ * found in Docker, creating and disposing their status trackers as they come and go.
+ *
+ * Changes to the `localstack.endpoint.*`, `localstack.image.*` and `localstack.docker.*` settings
+ * are applied to the default instance.
+ */
+export async function createInstanceRegistry(
+	outputChannel: LogOutputChannel,
+	timeTracker: TimeTracker,
+): Promise<InstanceRegistry> {
+	const emitter = createEmitter<void>(outputChannel);
+
+	await resolveDockerHost(outputChannel);
+
+	// A single `docker stats` process reports the usage of all instances.
+	const statsStream = createContainerStatsStream(outputChannel);
+
+	const defaultInstance = await createTrackedInstance(
+		getDefaultInstance(),
+		statsStream,
+		outputChannel,
+		timeTracker,
+	);
+
+	let otherInstances: TrackedInstance[] = await Promise.all(
+		(await readOtherInstances(defaultInstance.instance, outputChannel)).map(
+			(instance) =>
+				createTrackedInstance(
+					instance,
+					statsStream,
+					outputChannel,
+					timeTracker,
+				),
+		),
+	);
+
+	const reconcile = async () => {
+		const previousInstances = otherInstances;
+		const nextInstances = await Promise.all(
+			(await readOtherInstances(defaultInstance.instance, outputChannel)).map(
+				async (instance) => {
+					const existing = previousInstances.find((tracked) =>
+						isDeepStrictEqual(tracked.instance, instance),
+					);
+					return (
+						existing ??
+						(await createTrackedInstance(
+							instance,
+							statsStream,
+							outputChannel,
+							timeTracker,
+						))
+					);
+				},
+			),
+		);
+
+		for (const tracked of previousInstances) {
+			if (!nextInstances.includes(tracked)) {
+				tracked.dispose();
+			}
+		}
+
+		if (
+			nextInstances.length === previousInstances.length &&
+			nextInstances.every(
+				(tracked, index) => tracked === previousInstances[index],
+			)
+		) {
+			return;
+		}
+
+		otherInstances = nextInstances;
+		outputChannel.trace(
+			`[instances]: Tracking ${JSON.stringify(
+				otherInstances.map(({ instance }) => instance.name),
+			)}`,
+		);
+		await emitter.emit();
+	};
+
+	// Reconciliations run one after the other, so that trackers are never created twice.
+	// Failures are logged, so that the next reconciliations still run.
+	let reconciling = Promise.resolve();
+	const scheduleReconcile = () => {
+		reconciling = reconciling.then(reconcile).catch((error: unknown) => {
+			outputChannel.error(
+				`[instances]: Failed to update the instances: ${String(error)}`,
+			);
+		});
+		return reconciling;
+	};
+
+	const configurationListener = workspace.onDidChangeConfiguration(
+		async (event) => {
+			if (
+				event.affectsConfiguration("localstack.docker") ||
+				event.affectsConfiguration("localstack.containerRuntime")
+			) {
+				// The endpoint host may derive from the Docker host.
+				try {
+					await resolveDockerHost(outputChannel);
+				} catch (error) {
+					outputChannel.error(
+						`[instances]: Failed to resolve the Docker host: ${String(error)}`,
+					);
+				}
+				defaultInstance.instance = getDefaultInstance();
+				void emitter.emit();
+				void scheduleReconcile();
+			} else if (
+				event.affectsConfiguration("localstack.endpoint") ||
+				event.affectsConfiguration("localstack.image")
+			) {
+				// The container name of the default instance never changes,
+				// so its trackers are kept and only the instance is updated.
+				defaultInstance.instance = getDefaultInstance();
+				void emitter.emit();
+				void scheduleReconcile();
+			} else if (event.affectsConfiguration("localstack.instances")) {
+				void scheduleReconcile();
+			}
+		},
+	);
+
+	// Containers may have been created or removed from the terminal in the meantime.
+	const windowStateListener = window.onDidChangeWindowState((state) => {
+		if (state.focused) {
+			void scheduleReconcile();
+		}
+	});
+
+	const workspaceFoldersListener = workspace.onDidChangeWorkspaceFolders(() => {
+		void scheduleReconcile();
+	});
+
+	const instances = () => [defaultInstance, ...otherInstances];
+
+	const get = (name: string) =>
+		instances().find(({ instance }) => instance.name === name);
+
+	return {
+		instances,
+		defaultInstance() {
+			return defaultInstance;
+		},
+		get,
+		resolve(argument) {
+			if (
+				typeof argument === "object" &&
+				argument !== null &&
+				"instanceName" in argument &&
+				typeof argument.instanceName === "string"
+			) {
+				return get(argument.instanceName);
+			}
+			if (typeof argument === "string") {
+				return get(argument);
+			}
+			return defaultInstance;
+		},
+		onChange(callback) {
+			emitter.on(callback);
+		},
+		refresh() {
+			return scheduleReconcile();
+		},
+		dispose() {
+			configurationListener.dispose();
+			windowStateListener.dispose();
+			workspaceFoldersListener.dispose();
+			for (const tracked of instances()) {
+				tracked.dispose();
+			}
+			statsStream.dispose();
+		},
+	};
+}
+
+/**
+ * Resolves the instance of a command, see {@link InstanceRegistry.resolve}.
+ *
+ * Shows an error if the instance doesn't exist anymore, rather than acting on another instance.
+ */
+export function resolveCommandInstance(
+	instanceRegistry: InstanceRegistry,
+	argument: unknown,
+): TrackedInstance | undefined {
+	const trackedInstance = instanceRegistry.resolve(argument);
+	if (!trackedInstance) {
+		void window.showErrorMessage(
+			"The LocalStack instance doesn't exist anymore. It may have been renamed or removed.",
+		);
+	}
+	return trackedInstance;
+}
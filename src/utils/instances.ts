@@ -0,0 +1,248 @@
+import { ConfigurationTarget, workspace } from "vscode";
+import * as z from "zod/v4-mini";
+
+import { LOCALSTACK_DOCKER_IMAGE_NAME } from "../constants.ts";
+
+import { getDockerHost, getRemoteDockerHostname } from "./docker.ts";
+import { getLocalStackImage, IMAGE_REFERENCE_PATTERN } from "./image.ts";
+
+/**
+ * The Docker Compose service a LocalStack container belongs to.
+ */
+export interface ComposeService {
+	project: string;
+	service: string;
+	workingDir: string;
+	configFiles: string[];
+}
+
+/**
+ * A LocalStack instance, as stored in the `localstack.instances` setting.
+ */
+export interface LocalStackInstance {
+	name: string;
+	containerName: string;
+	port: number;
+	image: string;
+	/**
+	 * Whether the instance was found among the existing Docker containers, see `container-discovery.ts`.
+	 * Discovered instances are started and stopped through Docker instead of the LocalStack CLI.
+	 */
+	discovered?: boolean;
+	/**
+	 * Set if the container belongs to a Docker Compose project of the workspace.
+	 */
+	compose?: ComposeService;
+}
+
+/**
+ * The instance managed by the extension out of the box.
+ *
+ * It is always present and cannot be edited or removed.
+ * Its port and image follow the `localstack.endpoint.port` and `localstack.image.*` settings,
+ * see {@link getDefaultInstance}.
+ */
+export const DEFAULT_INSTANCE: LocalStackInstance = {
+	name: "default",
+	containerName: "localstack-main",
+	port: 4566,
+	image: LOCALSTACK_DOCKER_IMAGE_NAME,
+};
+
+export const DEFAULT_ENDPOINT_HOST = "localhost.localstack.cloud";
+
+/**
+ * The LocalStack gateway endpoint, as configured in the `localstack.endpoint.*` settings.
+ *
+ * Unless a host is configured, LocalStack is expected next to a remote Docker daemon, see `localstack.docker.*`.
+ */
+export interface EndpointConfiguration {
+	scheme: "http" | "https";
+	host: string;
+	port: number;
+}
+
+export function readEndpointConfiguration(): EndpointConfiguration {
+	const config = workspace.getConfiguration("localstack.endpoint");
+	const scheme = config.get<string>("scheme") === "https" ? "https" : "http";
+	const configuredHost =
+		config.get<string>("host")?.trim() || DEFAULT_ENDPOINT_HOST;
+	const host =
+		configuredHost === DEFAULT_ENDPOINT_HOST
+			? (getRemoteDockerHostname(getDockerHost()) ?? configuredHost)
+			: configuredHost;
+	const port = config.get<number>("port") ?? DEFAULT_INSTANCE.port;
+	return { scheme, host, port };
+}
+
+/**
+ * Returns the default instance, listening on the configured endpoint port and using the configured image.
+ */
+export function getDefaultInstance(): LocalStackInstance {
+	return {
+		...DEFAULT_INSTANCE,
+		port: readEndpointConfiguration().port,
+		image: getLocalStackImage(),
+	};
+}
+
+/**
+ * Returns the URL used by AWS tools (e.g. the `localstack` AWS profile) to reach the given instance.
+ */
+export function getInstanceAwsEndpoint(instance: LocalStackInstance): string {
+	const { scheme, host } = readEndpointConfiguration();
+	return `${scheme}://${host}:${instance.port}`;
+}
+
+/**
+ * Returns the URL used by the extension to reach the gateway of the given instance,
+ * e.g. for health checks.
+ *
+ * The default host is replaced by its loopback address, so that checks keep working
+ * when DNS rebind protection prevents resolving it.
+ */
+export function getInstanceEndpoint(instance: LocalStackInstance): string {
+	const { scheme, host } = readEndpointConfiguration();
+	const hostname = host === DEFAULT_ENDPOINT_HOST ? "127.0.0.1" : host;
+	return `${scheme}://${hostname}:${instance.port}`;
+}
+
+/**
+ * The ports LocalStack reserves for services such as OpenSearch or RDS, by default `4510-4559`.
+ */
+const DEFAULT_SERVICE_PORTS_START = 4510;
+const SERVICE_PORTS_COUNT = 50;
+
+/**
+ * Returns the range of ports reserved for the services of the given instance, `end` excluded.
+ *
+ * The range follows the gateway port, so that the default `4566` keeps the default `4510-4559`
+ * and instances on other ports don't overlap with it (e.g. `4666` uses `4610-4659`).
+ */
+export function getInstanceServicePorts(instance: LocalStackInstance): {
+	start: number;
+	end: number;
+} {
+	const start =
+		DEFAULT_SERVICE_PORTS_START + instance.port - DEFAULT_INSTANCE.port;
+	return { start, end: start + SERVICE_PORTS_COUNT };
+}
+
+/**
+ * Whether the given instances can't run side by side, because their gateway or services ports overlap.
+ */
+export function instancePortsOverlap(
+	a: LocalStackInstance,
+	b: LocalStackInstance,
+): boolean {
+	const aServices = getInstanceServicePorts(a);
+	const bServices = getInstanceServicePorts(b);
+	const inRange = (port: number, { start, end }: typeof aServices) =>
+		port >= start && port < end;
+	return (
+		a.port === b.port ||
+		inRange(a.port, bServices) ||
+		inRange(b.port, aServices) ||
+		(aServices.start < bServices.end && bServices.start < aServices.end)
+	);
+}
+
+/**
+ * Returns the environment variables that make the LocalStack CLI target the given instance.
+ */
+export function getInstanceEnvironment(
+	instance: LocalStackInstance,
+): Record<string, string> {
+	const servicePorts = getInstanceServicePorts(instance);
+	return {
+		IMAGE_NAME: instance.image,
+		MAIN_CONTAINER_NAME: instance.containerName,
+		GATEWAY_LISTEN: `:${instance.port}`,
+		EXTERNAL_SERVICE_PORTS_START: String(servicePorts.start),
+		EXTERNAL_SERVICE_PORTS_END: String(servicePorts.end),
+	};
+}
+
+/**
+ * The names Docker accepts for containers.
+ */
+export const CONTAINER_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+const LocalStackInstanceSchema = z.object({
+	name: z.string(),
+	containerName: z.string().check(z.regex(CONTAINER_NAME_PATTERN)),
+	port: z.number(),
+	image: z.string().check(z.regex(IMAGE_REFERENCE_PATTERN)),
+});
+
+/**
+ * Reads the user-defined instances from the `localstack.instances` setting.
+ *
+ * Invalid entries and entries clashing with the default instance name are ignored.
+ */
+export function readConfiguredInstances(): LocalStackInstance[] {
+	const configured = workspace
+		.getConfiguration("localstack")
+		.get<unknown[]>("instances", []);
+
+	const instances: LocalStackInstance[] = [];
+	for (const value of configured) {
+		const parsed = LocalStackInstanceSchema.safeParse(value);
+		if (!parsed.success) {
+			continue;
+		}
+		const names = [DEFAULT_INSTANCE.name, ...instances.map(({ name }) => name)];
+		if (names.includes(parsed.data.name)) {
+			continue;
+		}
+		instances.push(parsed.data);
+	}
+	return instances;
+}
+
+/**
+ * Writes the user-defined instances to the `localstack.instances` setting.
+ *
+ * Uses the workspace settings if a workspace is open, otherwise the user settings.
+ */
+export async function saveConfiguredInstances(
+	instances: LocalStackInstance[],
+): Promise<void> {
+	await workspace
+		.getConfiguration("localstack")
+		.update(
+			"instances",
+			instances,
+			workspace.workspaceFolders
+				? ConfigurationTarget.Workspace
+				: ConfigurationTarget.Global,
+		);
+}
+
+/**
+ * Changes the gateway port of the given instance: the `localstack.endpoint.port` setting
+ * for the default instance, its entry of the `localstack.instances` setting otherwise.
+ */
+export async function saveInstancePort(
+	instance: LocalStackInstance,
+	port: number,
+): Promise<void> {
+	if (instance.name === DEFAULT_INSTANCE.name) {
+		await workspace
+			.getConfiguration("localstack.endpoint")
+			.update(
+				"port",
+				port,
+				workspace.workspaceFolders
+					? ConfigurationTarget.Workspace
+					: ConfigurationTarget.Global,
+			);
+		return;
+	}
+
+	await saveConfiguredInstances(
+		readConfiguredInstances().map((configured) =>
+			configured.name === instance.name ? { ...configured, port } : configured,
+		),
+	);
+}
@@ -0,0 +1,192 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { LogOutputChannel, Memento } from "vscode";
+import { workspace } from "vscode";
+import * as z from "zod/v4-mini";
+
+/**
+ * A named set of LocalStack configuration options used when starting LocalStack,
+ * e.g. to enable `DEBUG` or `PERSISTENCE` for a given project.
+ */
+export interface LaunchProfile {
+	name: string;
+	/**
+	 * LocalStack configuration variables, e.g. `DEBUG`, `PERSISTENCE` or `SERVICES`.
+	 */
+	environment: Record<string, string>;
+	/**
+	 * Overrides the Docker image of the instance.
+	 */
+	image?: string;
+	/**
+	 * Absolute path of the LocalStack volume directory.
+	 */
+	volumeDir?: string;
+}
+
+/**
+ * The file, relative to a workspace folder, where launch profiles can be defined
+ * in addition to the `localstack.launchProfiles` setting.
+ */
+export const LAUNCH_PROFILES_FILE = path.join(".localstack", "profiles.json");
+
+/**
+ * These variables determine which instance the CLI targets, so profiles can't override them.
+ */
+const RESERVED_VARIABLES = ["MAIN_CONTAINER_NAME", "GATEWAY_LISTEN"];
+
+const LAST_LAUNCH_PROFILE_KEY = "launch_profile";
+
+const LaunchProfileSchema = z.object({
+	name: z.string(),
+	environment: z.optional(
+		z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])),
+	),
+	image: z.optional(z.string()),
+	volumeDir: z.optional(z.string()),
+});
+
+function parseLaunchProfiles(
+	value: unknown,
+	baseDirectory: string | undefined,
+	outputChannel: LogOutputChannel,
+	source: string,
+): LaunchProfile[] {
+	const parsed = z.array(LaunchProfileSchema).safeParse(value);
+	if (!parsed.success) {
+		outputChannel.warn(
+			`[launch-profiles]: Ignoring invalid launch profiles in ${source}: ${JSON.stringify(z.treeifyError(parsed.error))}`,
+		);
+		return [];
+	}
+
+	return parsed.data.map((profile) => ({
+		name: profile.name,
+		environment: Object.fromEntries(
+			Object.entries(profile.environment ?? {}).map(([key, value]) => [
+				key,
+				String(value),
+			]),
+		),
+		image: profile.image?.trim() || undefined,
+		volumeDir:
+			profile.volumeDir && baseDirectory
+				? path.resolve(baseDirectory, profile.volumeDir)
+				: profile.volumeDir,
+	}));
+}
+
+async function readLaunchProfilesFile(
+	directory: string,
+	outputChannel: LogOutputChannel,
+): Promise<LaunchProfile[]> {
+	const filePath = path.join(directory, LAUNCH_PROFILES_FILE);
+	let content: string;
+	try {
+		content = await readFile(filePath, "utf-8");
+	} catch {
+		return [];
+	}
+
+	try {
+		return parseLaunchProfiles(
+			JSON.parse(content),
+			directory,
+			outputChannel,
+			filePath,
+		);
+	} catch (error) {
+		outputChannel.warn(
+			`[launch-profiles]: Failed to parse ${filePath}: ${String(error)}`,
+		);
+		return [];
+	}
+}
+
+/**
+ * Reads the launch profiles from the `localstack.launchProfiles` setting and from the
+ * `.localstack/profiles.json` file of each workspace folder.
+ *
+ * Relative volume directories are resolved against the workspace folder.
+ * If several profiles share a name, the one in the settings wins.
+ */
+export async function readLaunchProfiles(
+	outputChannel: LogOutputChannel,
+): Promise<LaunchProfile[]> {
+	const folders = workspace.workspaceFolders ?? [];
+
+	const profiles = parseLaunchProfiles(
+		workspace
+			.getConfiguration("localstack")
+			.get<unknown[]>("launchProfiles", []),
+		folders[0]?.uri.fsPath,
+		outputChannel,
+		"the localstack.launchProfiles setting",
+	);
+
+	for (const folder of folders) {
+		for (const profile of await readLaunchProfilesFile(
+			folder.uri.fsPath,
+			outputChannel,
+		)) {
+			if (!profiles.some(({ name }) => name === profile.name)) {
+				profiles.push(profile);
+			}
+		}
+	}
+
+	return profiles;
+}
+
+/**
+ * Returns the environment variables passed to the LocalStack CLI for the given profile.
+ */
+export function getLaunchProfileEnvironment(
+	profile: LaunchProfile,
+): Record<string, string> {
+	const environment = Object.fromEntries(
+		Object.entries(profile.environment).filter(
+			([key]) => !RESERVED_VARIABLES.includes(key),
+		),
+	);
+	if (profile.image) {
+		environment.IMAGE_NAME = profile.image;
+	}
+	if (profile.volumeDir) {
+		environment.LOCALSTACK_VOLUME_DIR = profile.volumeDir;
+	}
+	return environment;
+}
+
+/**
+ * Returns the name of the profile LocalStack was last started with in this workspace.
+ */
+export function readLastLaunchProfileName(
+	workspaceState: Memento,
+): string | undefined {
+	return workspaceState.get<string>(LAST_LAUNCH_PROFILE_KEY);
+}
+
+export async function saveLastLaunchProfileName(
+	workspaceState: Memento,
+	name: string | undefined,
+): Promise<void> {
+	await workspaceState.update(LAST_LAUNCH_PROFILE_KEY, name);
+}
+
+/**
+ * Returns the launch profile LocalStack was last started with in this workspace, if it still exists.
+ */
+export async function readLastLaunchProfile(
+	workspaceState: Memento,
+	outputChannel: LogOutputChannel,
+): Promise<LaunchProfile | undefined> {
+	const lastName = readLastLaunchProfileName(workspaceState);
+	if (lastName === undefined) {
+		return;
+	}
+
+	const launchProfiles = await readLaunchProfiles(outputChannel);
+	return launchProfiles.find(({ name }) => name === lastName);
+}
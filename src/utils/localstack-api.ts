@@ -0,0 +1,63 @@
+import * as z from "zod/v4-mini";
+
+export async function fetchHealth(endpoint: string): Promise<boolean> {
+	// Health is OK in the majority of use cases, however, determining status based on it can be flaky.
+	// For example, if localstack becomes unhealthy while running for reasons other than the stop,
+	// then reporting "stopping" may be misleading.
+	try {
+		const response = await fetch(`${endpoint}/_localstack/health`);
+		return response.ok;
+	} catch {
+		return false;
+	}
+}
+
+const HealthSchema = z.object({
+	services: z.record(z.string(), z.string()),
+});
+
+/**
+ * The state of each LocalStack service, e.g. `{ "s3": "running", "lambda": "available" }`.
+ */
+export type ServicesHealth = Record<string, string>;
+
+/**
+ * Fetches the state of each service from the LocalStack health endpoint.
+ *
+ * @returns The services state, or `undefined` if LocalStack could not be reached.
+ */
+export async function fetchServicesHealth(
+	endpoint: string,
+): Promise<ServicesHealth | undefined> {
+	try {
+		const response = await fetch(`${endpoint}/_localstack/health`);
+		if (!response.ok) {
+			return undefined;
+		}
+		const parsed = HealthSchema.safeParse(await response.json());
+		return parsed.success ? parsed.data.services : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export async function fetchLocalStackSessionId(
+	endpoint: string,
+): Promise<string> {
+	// retry a few times to allow LocalStack to start up and info become available
+	for (let attempt = 0; attempt < 10; attempt++) {
+		try {
+			const response = await fetch(`${endpoint}/_localstack/info`);
+			if (response.ok) {
+				const json: unknown = await response.json();
+				if (typeof json === "object" && json !== null && "session_id" in json) {
+					return typeof json.session_id === "string" ? json.session_id : "";
+				}
+			}
+		} catch {
+			// ignore error and retry
+		}
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+	}
+	return "";
+}
@@ -0,0 +1,357 @@
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
+
+import { workspace } from "vscode";
+import type { Disposable, LogOutputChannel } from "vscode";
+
+import type { ContainerStatusTracker } from "./container-status.ts";
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { createEmitter } from "./emitter.ts";
+
+export interface LocalStackLogLine {
+	text: string;
+	stream: "stdout" | "stderr";
+	/**
+	 * Whether the line was logged before the logs were followed, see {@link LocalStackLogsTracker.loadHistory}.
+	 */
+	historical?: boolean;
+}
+
+export interface LocalStackLogsTracker extends Disposable {
+	/**
+	 * Called for each line logged by the LocalStack container while it is running.
+	 */
+	onLine(callback: (line: LocalStackLogLine) => void): Disposable;
+	/**
+	 * Loads the lines logged by the LocalStack container since the given date, or all lines,
+	 * skipping the lines already emitted.
+	 *
+	 * @returns The number of lines loaded.
+	 */
+	loadHistory(since?: Date): Promise<number>;
+}
+
+interface LogsConfiguration {
+	/**
+	 * The minutes of logs loaded when following a running container, `-1` loads all logs.
+	 */
+	historyMinutes: number;
+}
+
+function readLogsConfiguration(): LogsConfiguration {
+	const config = workspace.getConfiguration("localstack.logs");
+	return {
+		historyMinutes: config.get<number>("historyMinutes", 0),
+	};
+}
+
+/**
+ * A line of `docker logs --timestamps`.
+ */
+export interface TimestampedLine {
+	/**
+	 * A UTC timestamp with nanoseconds, e.g. `2025-01-01T00:00:00.123000000Z`,
+	 * so that timestamps can be compared as strings.
+	 */
+	timestamp: string;
+	text: string;
+}
+
+const TIMESTAMPED_LINE_REGEX =
+	/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:\d{2}) ?(.*)$/;
+
+/**
+ * Parses a line of `docker logs --timestamps`, e.g. `2025-01-01T00:00:00.123Z Ready.`.
+ *
+ * @returns The line, or `undefined` if the line doesn't start with a timestamp.
+ */
+export function parseTimestampedLine(
+	line: string,
+): TimestampedLine | undefined {
+	const match = TIMESTAMPED_LINE_REGEX.exec(line);
+	if (!match) {
+		return;
+	}
+
+	const [, dateTime, fraction = "", offset, text] = match;
+	const date = new Date(`${dateTime}${offset}`);
+	if (Number.isNaN(date.getTime())) {
+		return;
+	}
+	return {
+		timestamp: `${date.toISOString().slice(0, 19)}.${fraction.slice(0, 9).padEnd(9, "0")}Z`,
+		text,
+	};
+}
+
+function toTimestamp(date: Date): string {
+	return `${date.toISOString().slice(0, 23)}000000Z`;
+}
+
+/**
+ * Follows the logs of the LocalStack container while it is running.
+ */
+export function createLocalStackLogsTracker(
+	containerStatusTracker: ContainerStatusTracker,
+	containerName: string,
+	outputChannel: LogOutputChannel,
+): LocalStackLogsTracker {
+	const emitter = createEmitter<LocalStackLogLine>(outputChannel);
+
+	let logsProcess: ChildProcess | undefined;
+
+	// The emitted lines span from the first to the last timestamp, so that lines read again
+	// when following restarts, or when loading the history, can be skipped.
+	let firstTimestamp: string | undefined;
+	let lastTimestamp: string | undefined;
+
+	const readLogs = (
+		args: string[],
+		onLine: (line: TimestampedLine, stream: "stdout" | "stderr") => void,
+	) => {
+		const child = spawn(
+			readContainerRuntimeConfiguration().binary,
+			["logs", containerName, "--timestamps", ...args],
+			{
+				stdio: "pipe",
+				env: getDockerProcessEnvironment(),
+			},
+		);
+
+		for (const stream of ["stdout", "stderr"] as const) {
+			const input = child[stream];
+			if (!input) {
+				continue;
+			}
+			createInterface({ input }).on("line", (line) => {
+				const parsed = parseTimestampedLine(line);
+				if (!parsed) {
+					// Errors of the container runtime, e.g. when the container doesn't exist.
+					if (line.trim() !== "") {
+						outputChannel.error(`[localstack.logs]: ${line.trim()}`);
+					}
+				} else if (parsed.text.trim() !== "") {
+					onLine({ ...parsed, text: parsed.text.trim() }, stream);
+				}
+			});
+		}
+
+		return child;
+	};
+
+	const getFollowSince = (): string | undefined => {
+		if (lastTimestamp) {
+			return lastTimestamp;
+		}
+		const { historyMinutes } = readLogsConfiguration();
+		if (historyMinutes < 0) {
+			return;
+		}
+		return String(Math.floor(Date.now() / 1000 - historyMinutes * 60));
+	};
+
+	const startLogging = () => {
+		logsProcess?.kill();
+
+		const since = getFollowSince();
+		// Lines logged before following starts are loaded because of the history setting.
+		const followedAt = toTimestamp(new Date());
+		const child = readLogs(
+			["--follow", ...(since ? ["--since", since] : [])],
+			({ timestamp, text }, stream) => {
+				if (lastTimestamp && timestamp <= lastTimestamp) {
+					return;
+				}
+				firstTimestamp ??= timestamp;
+				lastTimestamp = timestamp;
+				void emitter.emit({
+					text,
+					stream,
+					historical: timestamp < followedAt,
+				});
+			},
+		);
+		logsProcess = child;
+
+		child.on("error", (error) => {
+			outputChannel.error(`[localstack.logs]: ${String(error)}`);
+		});
+
+		child.on("close", (code) => {
+			if (code === 0) {
+				outputChannel.info(
+					`[localstack.logs]: Process ended (exit code = ${code})`,
+				);
+			} else {
+				outputChannel.error(
+					`[localstack.logs]: Process ended (exit code = ${code})`,
+				);
+			}
+		});
+	};
+
+	const stopLogging = () => {
+		logsProcess?.kill();
+		logsProcess = undefined;
+	};
+
+	containerStatusTracker.onChange((status) => {
+		if (status === "running") {
+			startLogging();
+		} else if (status === "stopped") {
+			stopLogging();
+		}
+	});
+
+	const configurationListener = workspace.onDidChangeConfiguration((event) => {
+		const affectsRuntime =
+			event.affectsConfiguration("localstack.docker") ||
+			event.affectsConfiguration("localstack.containerRuntime");
+		if (affectsRuntime && logsProcess) {
+			startLogging();
+		}
+	});
+
+	return {
+		onLine(callback) {
+			return emitter.on(callback);
+		},
+		async loadHistory(since) {
+			const lines: LocalStackLogLine[] = [];
+			let earliestTimestamp: string | undefined;
+			let latestTimestamp: string | undefined;
+
+			const child = readLogs(
+				since ? ["--since", String(Math.floor(since.getTime() / 1000))] : [],
+				({ timestamp, text }, stream) => {
+					// Lines between the first and the last timestamps have been emitted already.
+					if (
+						firstTimestamp &&
+						lastTimestamp &&
+						timestamp >= firstTimestamp &&
+						timestamp <= lastTimestamp
+					) {
+						return;
+					}
+					earliestTimestamp ??= timestamp;
+					latestTimestamp = timestamp;
+					lines.push({ text, stream, historical: true });
+				},
+			);
+
+			const code = await new Promise<number | null>((resolve, reject) => {
+				child.on("error", reject);
+				child.on("close", resolve);
+			});
+			if (code !== 0) {
+				throw new Error(
+					`Failed to read the logs of ${containerName} (exit code = ${code})`,
+				);
+			}
+
+			if (earliestTimestamp && latestTimestamp) {
+				if (!firstTimestamp || earliestTimestamp < firstTimestamp) {
+					firstTimestamp = earliestTimestamp;
+				}
+				if (!lastTimestamp || latestTimestamp > lastTimestamp) {
+					lastTimestamp = latestTimestamp;
+				}
+			}
+			for (const line of lines) {
+				await emitter.emit(line);
+			}
+			return lines.length;
+		},
+		dispose() {
+			configurationListener.dispose();
+			stopLogging();
+		},
+	};
+}
+
+/**
+ * An AWS API request handled by LocalStack.
+ */
+export interface AwsRequest {
+	service: string;
+	operation: string;
+	statusCode: number;
+}
+
+const AWS_REQUEST_REGEX = /\bAWS ([\w-]+)\.(\w+) => (\d{3})\b/;
+
+/**
+ * Parses the AWS request logged by LocalStack, e.g. `AWS s3.PutObject => 200`.
+ *
+ * @returns The request, or `undefined` if the line doesn't log an AWS request.
+ */
+export function parseAwsRequest(text: string): AwsRequest | undefined {
+	const match = AWS_REQUEST_REGEX.exec(text);
+	if (!match) {
+		return;
+	}
+
+	const [, service, operation, statusCode] = match;
+	return { service, operation, statusCode: Number(statusCode) };
+}
+
+/**
+ * A log line of LocalStack, split into its fields.
+ */
+export interface LogEntry {
+	/**
+	 * E.g. `2025-01-01T00:00:00.000`.
+	 */
+	timestamp?: string;
+	/**
+	 * E.g. `INFO`, with `WARNING` reported as `WARN` and `CRITICAL` or `FATAL` as `ERROR`.
+	 */
+	level?: string;
+	/**
+	 * E.g. `localstack.request.aws`.
+	 */
+	logger?: string;
+	/**
+	 * The AWS service the line is about, e.g. `s3`.
+	 */
+	service?: string;
+	message: string;
+}
+
+const LOG_ENTRY_REGEX =
+	/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?)\s+([A-Z]+)\s+---\s+\[[^\]]*\]\s+(\S+)\s*:\s?(.*)$/;
+
+const LEVEL_ALIASES: Record<string, string> = {
+	WARNING: "WARN",
+	CRITICAL: "ERROR",
+	FATAL: "ERROR",
+};
+
+/**
+ * Parses a log line of LocalStack, e.g.
+ * `2025-01-01T00:00:00.000  INFO --- [et.reactor-0] localstack.request.aws     : AWS s3.PutObject => 200`.
+ *
+ * Lines in other formats (e.g. stack traces) are returned as a message only.
+ */
+export function parseLogEntry(text: string): LogEntry {
+	const match = LOG_ENTRY_REGEX.exec(text);
+	if (!match) {
+		return { message: text };
+	}
+
+	const [, timestamp, level, logger, message] = match;
+	const service =
+		parseAwsRequest(message)?.service ??
+		/^localstack(?:_ext)?\.services\.([\w-]+)/.exec(logger)?.[1];
+	return {
+		timestamp,
+		level: LEVEL_ALIASES[level] ?? level,
+		logger,
+		service,
+		message,
+	};
+}
@@ -1,11 +1,11 @@
-import type { Disposable, LogOutputChannel } from "vscode";
+import type { CancellationToken, Disposable, LogOutputChannel } from "vscode";
 
 import type {
 	ContainerStatus,
 	ContainerStatusTracker,
 } from "./container-status.ts";
 import { createEmitter } from "./emitter.ts";
-import { fetchHealth } from "./manage.ts";
+import { fetchHealth } from "./localstack-api.ts";
 import type { TimeTracker } from "./time-tracker.ts";
 
 export type LocalStackStatus = "starting" | "running" | "stopping" | "stopped";
@@ -13,7 +13,7 @@ export type LocalStackStatus = "starting" | "running" | "stopping" | "stopped";
 export interface LocalStackStatusTracker extends Disposable {
 	status(): LocalStackStatus;
 	forceContainerStatus(status: ContainerStatus): void;
-	onChange(callback: (status: LocalStackStatus) => void): void;
+	onChange(callback: (status: LocalStackStatus) => void): Disposable;
 }
 
 /**
@@ -23,6 +23,7 @@ export function createLocalStackStatusTracker(
 	containerStatusTracker: ContainerStatusTracker,
 	outputChannel: LogOutputChannel,
 	timeTracker: TimeTracker,
+	endpoint: () => string,
 ): LocalStackStatusTracker {
 	let containerStatus: ContainerStatus | undefined;
 	let status: LocalStackStatus | undefined;
@@ -31,6 +32,7 @@ export function createLocalStackStatusTracker(
 	const healthCheckStatusTracker = createHealthStatusTracker(
 		outputChannel,
 		timeTracker,
+		endpoint,
 	);
 
 	const setStatus = (newStatus: LocalStackStatus) => {
@@ -90,10 +92,11 @@ export function createLocalStackStatusTracker(
 			}
 		},
 		onChange(callback) {
-			emitter.on(callback);
+			const disposable = emitter.on(callback);
 			if (status) {
 				callback(status);
 			}
+			return disposable;
 		},
 		dispose() {
 			healthCheckStatusTracker.dispose();
@@ -101,6 +104,51 @@ export function createLocalStackStatusTracker(
 	};
 }
 
+/**
+ * Waits until the LocalStack status becomes one of the given `statuses`.
+ *
+ * Resolves immediately if the current status already matches.
+ *
+ * @returns The matching status, or `undefined` if the timeout expired or the wait was cancelled first.
+ */
+export function waitForLocalStackStatus(
+	localStackStatusTracker: LocalStackStatusTracker,
+	statuses: LocalStackStatus[],
+	options: { timeoutMs?: number; cancellationToken?: CancellationToken } = {},
+): Promise<LocalStackStatus | undefined> {
+	return new Promise((resolve) => {
+		let resolved = false;
+
+		const finish = (status: LocalStackStatus | undefined) => {
+			if (resolved) {
+				return;
+			}
+			resolved = true;
+			clearTimeout(timeout);
+			cancellationListener?.dispose();
+			// The callback may be called synchronously, before `disposable` is assigned.
+			setImmediate(() => {
+				disposable.dispose();
+			});
+			resolve(status);
+		};
+
+		const timeout =
+			options.timeoutMs === undefined
+				? undefined
+				: setTimeout(() => finish(undefined), options.timeoutMs);
+		const cancellationListener =
+			options.cancellationToken?.onCancellationRequested(() =>
+				finish(undefined),
+			);
+		const disposable = localStackStatusTracker.onChange((status) => {
+			if (statuses.includes(status)) {
+				finish(status);
+			}
+		});
+	});
+}
+
 function getLocalStackStatus(
 	containerStatus: ContainerStatus | undefined,
 	healthStatus: HealthStatus | undefined,
@@ -137,6 +185,7 @@ interface HealthStatusTracker extends Disposable {
 function createHealthStatusTracker(
 	outputChannel: LogOutputChannel,
 	timeTracker: TimeTracker,
+	endpoint: () => string,
 ): HealthStatusTracker {
 	let status: HealthStatus | undefined;
 	const emitter = createEmitter<HealthStatus | undefined>(outputChannel);
@@ -152,7 +201,9 @@ function createHealthStatusTracker(
 
 	const fetchAndUpdateStatus = async () => {
 		await timeTracker.run("localstack-status.health", async () => {
-			const newStatus = (await fetchHealth()) ? "healthy" : "unhealthy";
+			const newStatus = (await fetchHealth(endpoint()))
+				? "healthy"
+				: "unhealthy";
 			updateStatus(newStatus);
 		});
 	};
@@ -0,0 +1,197 @@
+import { appendFile, mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { workspace } from "vscode";
+import type { Disposable, LogOutputChannel } from "vscode";
+
+export interface LogFilesConfiguration {
+	enabled: boolean;
+	/**
+	 * Empty to use the storage of the extension.
+	 */
+	directory: string;
+	/**
+	 * In megabytes.
+	 */
+	maxFileSize: number;
+	/**
+	 * The number of files kept per session, including the current one.
+	 */
+	maxFiles: number;
+}
+
+export function readLogFilesConfiguration(): LogFilesConfiguration {
+	const config = workspace.getConfiguration("localstack.logs.persist");
+	return {
+		enabled: config.get<boolean>("enabled", false),
+		directory: config.get<string>("directory", "").trim(),
+		maxFileSize: config.get<number>("maxFileSize", 10),
+		maxFiles: config.get<number>("maxFiles", 5),
+	};
+}
+
+/**
+ * Returns the name of a log file of the session: `<session>.log` for the current file,
+ * and `<session>.<index>.log` for rotated files, `1` being the most recent.
+ */
+export function getLogFileName(sessionId: string, index = 0): string {
+	return index === 0 ? `${sessionId}.log` : `${sessionId}.${index}.log`;
+}
+
+/**
+ * Parses the name of a log file, see {@link getLogFileName}.
+ *
+ * @returns The session and index of the file, or `undefined` for other files.
+ */
+export function parseLogFileName(
+	fileName: string,
+): { sessionId: string; index: number } | undefined {
+	const match = /^(.+?)(?:\.(\d+))?\.log$/.exec(fileName);
+	if (!match) {
+		return;
+	}
+	const [, sessionId, index] = match;
+	return { sessionId, index: index ? Number(index) : 0 };
+}
+
+export interface LogFileWriter extends Disposable {
+	/**
+	 * Appends the line to the current file, rotating the files once it is too large.
+	 */
+	append(line: string): void;
+}
+
+/**
+ * Writes the logs of a LocalStack session to `<directory>/<session>.log`.
+ */
+export function createLogFileWriter(options: {
+	directory: string;
+	sessionId: string;
+	maxFileSize: number;
+	maxFiles: number;
+	outputChannel: LogOutputChannel;
+}): LogFileWriter {
+	const { directory, sessionId, outputChannel } = options;
+	const maxFileBytes = options.maxFileSize * 1024 * 1024;
+	const maxFiles = Math.max(options.maxFiles, 1);
+	const file = path.join(directory, getLogFileName(sessionId));
+
+	let size: number | undefined;
+	let buffer: string[] = [];
+	let disposed = false;
+	// Writes are chained, so that lines are written in order.
+	let writing = Promise.resolve();
+
+	const rotate = async () => {
+		await rm(path.join(directory, getLogFileName(sessionId, maxFiles - 1)), {
+			force: true,
+		});
+		for (let index = maxFiles - 2; index >= 0; index--) {
+			await rename(
+				path.join(directory, getLogFileName(sessionId, index)),
+				path.join(directory, getLogFileName(sessionId, index + 1)),
+			).catch(() => undefined);
+		}
+		size = 0;
+	};
+
+	const write = async () => {
+		const lines = buffer;
+		buffer = [];
+		if (lines.length === 0) {
+			return;
+		}
+
+		if (size === undefined) {
+			await mkdir(directory, { recursive: true });
+			size = await stat(file).then(
+				({ size }) => size,
+				() => 0,
+			);
+		}
+		if (size >= maxFileBytes) {
+			await rotate();
+		}
+
+		const data = `${lines.join("\n")}\n`;
+		await appendFile(file, data);
+		size += Buffer.byteLength(data);
+	};
+
+	return {
+		append(line) {
+			if (disposed) {
+				return;
+			}
+			buffer.push(line);
+			// Lines logged while a write is in progress are written together.
+			if (buffer.length === 1) {
+				writing = writing.then(write).catch((error: unknown) => {
+					outputChannel.error(
+						`[log-files]: Failed to write ${file}: ${String(error)}`,
+					);
+				});
+			}
+		},
+		dispose() {
+			disposed = true;
+		},
+	};
+}
+
+export interface LogFile {
+	sessionId: string;
+	index: number;
+	path: string;
+	size: number;
+	modifiedAt: Date;
+}
+
+/**
+ * Lists the log files of the directory, most recent session first, then most recent file first.
+ */
+export async function listLogFiles(directory: string): Promise<LogFile[]> {
+	const fileNames = await readdir(directory).catch(() => []);
+	const files = await Promise.all(
+		fileNames.map(async (fileName) => {
+			const parsed = parseLogFileName(fileName);
+			if (!parsed) {
+				return;
+			}
+			const filePath = path.join(directory, fileName);
+			// The file may have been rotated away since the directory was read.
+			const stats = await stat(filePath).catch(() => undefined);
+			if (!stats) {
+				return;
+			}
+			return {
+				...parsed,
+				path: filePath,
+				size: stats.size,
+				modifiedAt: stats.mtime,
+			};
+		}),
+	);
+
+	const sessionModifiedAt = new Map<string, number>();
+	for (const file of files) {
+		if (file) {
+			sessionModifiedAt.set(
+				file.sessionId,
+				Math.max(
+					sessionModifiedAt.get(file.sessionId) ?? 0,
+					file.modifiedAt.getTime(),
+				),
+			);
+		}
+	}
+	return files
+		.filter((file) => file !== undefined)
+		.sort(
+			(a, b) =>
+				(sessionModifiedAt.get(b.sessionId) ?? 0) -
+					(sessionModifiedAt.get(a.sessionId) ?? 0) ||
+				a.sessionId.localeCompare(b.sessionId) ||
+				a.index - b.index,
+		);
+}
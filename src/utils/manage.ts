@@ -1,84 +1,184 @@
 import { v7 as uuidv7 } from "uuid";
-import type { ExtensionContext, LogOutputChannel, MessageItem } from "vscode";
-import { commands, env, Uri, window } from "vscode";
+import type {
+	CancellationToken,
+	ExtensionContext,
+	LogOutputChannel,
+	MessageItem,
+	Progress,
+} from "vscode";
+import { CancellationError, commands, env, Uri, window } from "vscode";
 
 import { readAuthToken } from "./authenticate.ts";
 import { spawnLocalStack } from "./cli.ts";
-import { checkIsLicenseValid } from "./license.ts";
+import {
+	startDiscoveredContainer,
+	stopDiscoveredContainer,
+} from "./container-discovery.ts";
+import {
+	DEFAULT_INSTANCE,
+	getInstanceEndpoint,
+	getInstanceEnvironment,
+} from "./instances.ts";
+import type { LocalStackInstance } from "./instances.ts";
+import { getLaunchProfileEnvironment } from "./launch-profiles.ts";
+import type { LaunchProfile } from "./launch-profiles.ts";
+import { fetchLocalStackSessionId } from "./localstack-api.ts";
+import { waitForLocalStackStatus } from "./localstack-status.ts";
+import type { LocalStackStatusTracker } from "./localstack-status.ts";
+import { analyzeStartFailure } from "./start-failure.ts";
 import type { Telemetry } from "./telemetry.ts";
 
-export async function fetchHealth(): Promise<boolean> {
-	// Health is OK in the majority of use cases, however, determining status based on it can be flaky.
-	// For example, if localstack becomes unhealthy while running for reasons other than the stop,
-	// then reporting "stopping" may be misleading.
-	try {
-		const response = await fetch("http://127.0.0.1:4566/_localstack/health");
-		return response.ok;
-	} catch {
-		return false;
-	}
+/**
+ * Returns a human readable name for the given instance, to be used in notifications.
+ */
+function getDisplayName(instance: LocalStackInstance): string {
+	return instance.name === DEFAULT_INSTANCE.name
+		? "LocalStack"
+		: `LocalStack "${instance.name}"`;
 }
-async function fetchLocalStackSessionId(): Promise<string> {
-	// retry a few times to allow LocalStack to start up and info become available
-	for (let attempt = 0; attempt < 10; attempt++) {
-		try {
-			const response = await fetch("http://127.0.0.1:4566/_localstack/info");
-			if (response.ok) {
-				const json: unknown = await response.json();
-				if (typeof json === "object" && json !== null && "session_id" in json) {
-					return typeof json.session_id === "string" ? json.session_id : "";
-				}
-			}
-		} catch {
-			// ignore error and retry
-		}
-		await new Promise((resolve) => setTimeout(resolve, 1000));
+
+/**
+ * Rejects with a {@link CancellationError} as soon as the `cancellationToken` is cancelled.
+ */
+function raceCancellation<T>(
+	promise: Promise<T>,
+	cancellationToken: CancellationToken | undefined,
+): Promise<T> {
+	if (!cancellationToken) {
+		return promise;
 	}
-	return "";
+
+	return new Promise<T>((resolve, reject) => {
+		const disposable = cancellationToken.onCancellationRequested(() => {
+			reject(new CancellationError());
+		});
+		promise.then(resolve, reject).finally(() => {
+			disposable.dispose();
+		});
+	});
+}
+
+export interface StartLocalStackOptions {
+	/**
+	 * Receives the start progress. If not given, a notification is shown instead.
+	 */
+	progress?: Progress<{ message?: string }>;
+	/**
+	 * Stops the container when cancelled.
+	 */
+	cancellationToken?: CancellationToken;
+	/**
+	 * If given, waits until LocalStack is running before resolving.
+	 */
+	localStackStatusTracker?: LocalStackStatusTracker;
+	/**
+	 * The launch profile providing additional configuration variables.
+	 * It doesn't apply to discovered containers, which are started as they are.
+	 */
+	launchProfile?: LaunchProfile;
 }
 
+/**
+ * Starts the given LocalStack instance.
+ *
+ * @throws if LocalStack fails to start, or the start is cancelled.
+ */
 export async function startLocalStack(
+	instance: LocalStackInstance,
 	outputChannel: LogOutputChannel,
 	telemetry: Telemetry,
+	options: StartLocalStackOptions = {},
 ): Promise<void> {
-	void showInformationMessage("Starting LocalStack.", {
-		title: "View Logs",
-		command: "localstack.viewLogs",
-	});
+	const {
+		progress,
+		cancellationToken,
+		localStackStatusTracker,
+		launchProfile,
+	} = options;
+
+	if (progress) {
+		progress.report({ message: "Starting the container..." });
+	} else {
+		void showInformationMessage(`Starting ${getDisplayName(instance)}.`, {
+			title: "View Logs",
+			command: "localstack.viewLogs",
+		});
+	}
 
 	const authToken = await readAuthToken();
+	// Kept to find the cause if the start fails.
+	let stderr = "";
 	try {
-		await spawnLocalStack(
-			[
-				"start",
-				// DO NOT REMOVE!
-				// When spawning localstack in a subprocess from a VSCode extension in Windows, the banner will output the whale emoticon (🐳),
-				// and then omething regarding text encoding fails, making the process to stop with the following error:
-				// `\u274c Error: 'charmap' codec can't encode character '\U0001f433' in position 35: character maps to <undefined>`.
-				"--no-banner",
-				// On Windows, use detached so the process doesn't have a chance to print special unicode characters.
-				"--detached",
-			],
-			{
+		if (instance.discovered) {
+			if (launchProfile) {
+				void window.showWarningMessage(
+					`The launch profile "${launchProfile.name}" was not applied, since ${getDisplayName(instance)} is an existing container that is started as it is.`,
+				);
+			}
+			await startDiscoveredContainer(instance, {
 				outputChannel,
-				onStderr(data: Buffer, context) {
-					const text = data.toString();
-					// Currently, the LocalStack CLI does not exit if the container fails to start in specific scenarios.
-					// As a workaround, we look for a specific error message in the output to determine if the container failed to start.
-					if (
-						text.includes(
-							"localstack.utils.container_utils.container_client.ContainerException",
-						)
-					) {
-						// Abort the process if we detect a ContainerException, otherwise it will hang indefinitely.
-						context.abort();
-						throw new Error("ContainerException");
-					}
+				cancellationToken,
+				onStderr(data: Buffer) {
+					stderr += data.toString();
 				},
-			},
-		);
+			});
+		} else {
+			await spawnLocalStack(
+				[
+					"start",
+					// DO NOT REMOVE!
+					// When spawning localstack in a subprocess from a VSCode extension in Windows, the banner will output the whale emoticon (🐳),
+					// and then omething regarding text encoding fails, making the process to stop with the following error:
+					// `\u274c Error: 'charmap' codec can't encode character '\U0001f433' in position 35: character maps to <undefined>`.
+					"--no-banner",
+					// On Windows, use detached so the process doesn't have a chance to print special unicode characters.
+					"--detached",
+				],
+				{
+					outputChannel,
+					cancellationToken,
+					environment: {
+						...getInstanceEnvironment(instance),
+						...(launchProfile && getLaunchProfileEnvironment(launchProfile)),
+					},
+					onStderr(data: Buffer, context) {
+						const text = data.toString();
+						stderr += text;
+						// Currently, the LocalStack CLI does not exit if the container fails to start in specific scenarios.
+						// As a workaround, we look for a specific error message in the output to determine if the container failed to start.
+						if (
+							text.includes(
+								"localstack.utils.container_utils.container_client.ContainerException",
+							)
+						) {
+							// Abort the process if we detect a ContainerException, otherwise it will hang indefinitely.
+							context.abort();
+							throw new Error("ContainerException");
+						}
+					},
+				},
+			);
+		}
+
+		if (localStackStatusTracker) {
+			progress?.report({ message: "Waiting for the health check to pass..." });
+			const status = await raceCancellation(
+				waitForLocalStackStatus(localStackStatusTracker, [
+					"running",
+					"stopped",
+				]),
+				cancellationToken,
+			);
+			if (status === "stopped") {
+				throw new Error("LocalStack stopped before becoming ready");
+			}
+		}
 
-		const emulatorSessionId = await fetchLocalStackSessionId();
+		progress?.report({ message: "Retrieving the session id..." });
+		const emulatorSessionId = await raceCancellation(
+			fetchLocalStackSessionId(getInstanceEndpoint(instance)),
+			cancellationToken,
+		);
 		telemetry.track({
 			name: "started",
 			payload: {
@@ -89,46 +189,103 @@ export async function startLocalStack(
 			},
 		});
 	} catch (error) {
-		const isLicenseValid = await checkIsLicenseValid(outputChannel);
-		if (isLicenseValid === false) {
-			void showErrorMessage("No valid LocalStack license found.", {
-				title: "Go to License settings",
-				command: "localstack.openLicensePage",
+		if (cancellationToken?.isCancellationRequested) {
+			progress?.report({ message: "Cancelled, stopping the container..." });
+			await stopInstanceContainer(instance, outputChannel).catch(
+				(stopError: unknown) => {
+					outputChannel.error(
+						stopError instanceof Error ? stopError : String(stopError),
+					);
+				},
+			);
+			telemetry.track({
+				name: "started",
+				payload: {
+					namespace: "emulator",
+					status: "FAILED",
+					errors: [String(error)],
+					auth_token: authToken,
+				},
 			});
 		} else {
-			void showErrorMessage("Failed to start LocalStack.", {
-				title: "View Logs",
-				command: "localstack.viewLogs",
+			progress?.report({ message: "Looking for the cause of the failure..." });
+			const failure = await analyzeStartFailure(
+				instance,
+				stderr,
+				error,
+				outputChannel,
+			);
+			outputChannel.error(
+				`[start-failure]: ${failure.category}: ${failure.reason} ${failure.suggestion}`,
+			);
+			// The reason of unknown failures would only repeat that LocalStack failed to start.
+			const reason = failure.category === "unknown" ? "" : ` ${failure.reason}`;
+			void showErrorMessage(
+				`Failed to start ${getDisplayName(instance)}.${reason} ${failure.suggestion}`,
+				...failure.actions,
+			);
+
+			telemetry.track({
+				name: "started",
+				payload: {
+					namespace: "emulator",
+					status: "FAILED",
+					errors: [`${failure.category}: ${String(error)}`],
+					auth_token: authToken,
+				},
 			});
-			throw error;
 		}
 
-		telemetry.track({
-			name: "started",
-			payload: {
-				namespace: "emulator",
-				status: "FAILED",
-				errors: [String(error)],
-				auth_token: authToken,
-			},
+		throw error;
+	}
+}
+
+/**
+ * Stops the container of the given instance, using Docker for discovered instances
+ * and the LocalStack CLI otherwise.
+ */
+async function stopInstanceContainer(
+	instance: LocalStackInstance,
+	outputChannel: LogOutputChannel,
+) {
+	if (instance.discovered) {
+		await stopDiscoveredContainer(instance, { outputChannel });
+	} else {
+		await spawnLocalStack(["stop"], {
+			outputChannel,
+			environment: getInstanceEnvironment(instance),
 		});
 	}
 }
 
+/**
+ * Stops the given LocalStack instance.
+ *
+ * If `options.progress` is given, the status is reported to it instead of a notification.
+ *
+ * @returns Whether the instance was stopped successfully.
+ */
 export async function stopLocalStack(
+	instance: LocalStackInstance,
 	outputChannel: LogOutputChannel,
 	telemetry: Telemetry,
-) {
-	void showInformationMessage("Stopping LocalStack.");
+	options: { progress?: Progress<{ message?: string }> } = {},
+): Promise<boolean> {
+	const { progress } = options;
+	if (progress) {
+		progress.report({ message: `Stopping ${getDisplayName(instance)}...` });
+	} else {
+		void showInformationMessage(`Stopping ${getDisplayName(instance)}.`);
+	}
 
 	const authToken = await readAuthToken();
 	try {
 		// get session id before killing container
-		const emulatorSessionId = await fetchLocalStackSessionId();
+		const emulatorSessionId = await fetchLocalStackSessionId(
+			getInstanceEndpoint(instance),
+		);
 
-		await spawnLocalStack(["stop"], {
-			outputChannel,
-		});
+		await stopInstanceContainer(instance, outputChannel);
 
 		telemetry.track({
 			name: "stopped",
@@ -139,8 +296,10 @@ export async function stopLocalStack(
 				auth_token: authToken,
 			},
 		});
+
+		return true;
 	} catch (error) {
-		void showErrorMessage("Failed to stop LocalStack.", {
+		void showErrorMessage(`Failed to stop ${getDisplayName(instance)}.`, {
 			title: "View Logs",
 			command: "localstack.viewLogs",
 		});
@@ -154,6 +313,8 @@ export async function stopLocalStack(
 				auth_token: authToken,
 			},
 		});
+
+		return false;
 	}
 }
 
@@ -179,11 +340,14 @@ async function showInformationMessage(
 
 async function showErrorMessage(
 	message: string,
-	...items: (MessageItem & { command: string })[]
+	...items: (MessageItem & { command: string; arguments?: unknown[] })[]
 ) {
 	const selection = await window.showErrorMessage(message, ...items);
 	if (selection) {
-		await commands.executeCommand(selection.command);
+		await commands.executeCommand(
+			selection.command,
+			...(selection.arguments ?? []),
+		);
 	}
 }
 
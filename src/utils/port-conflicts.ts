@@ -0,0 +1,299 @@
+import { createServer } from "node:net";
+import os from "node:os";
+
+import type { LogOutputChannel } from "vscode";
+
+import {
+	getContainerCommand,
+	getDockerHost,
+	getDockerProcessEnvironment,
+	getRemoteDockerHostname,
+} from "./docker.ts";
+import { exec } from "./exec.ts";
+import { getInstanceServicePorts } from "./instances.ts";
+import type { LocalStackInstance } from "./instances.ts";
+import { spawn } from "./spawn.ts";
+
+/**
+ * What holds a port LocalStack needs.
+ */
+export type PortOwner =
+	| { kind: "container"; name: string }
+	| { kind: "process"; pid: number; command?: string };
+
+export interface PortConflict {
+	port: number;
+	/**
+	 * `undefined` if the owner could not be found, e.g. for lack of permissions.
+	 */
+	owner?: PortOwner;
+}
+
+/**
+ * Returns the ports the given instance needs: its gateway port and the range reserved for services.
+ *
+ * @param environment - The start environment, which may move the services range.
+ */
+export function getRequiredPorts(
+	instance: LocalStackInstance,
+	environment: Record<string, string> = {},
+): number[] {
+	const defaults = getInstanceServicePorts(instance);
+	const start =
+		Number(environment.EXTERNAL_SERVICE_PORTS_START) || defaults.start;
+	const end = Number(environment.EXTERNAL_SERVICE_PORTS_END) || defaults.end;
+
+	const ports = [instance.port];
+	for (let port = start; port < end; port++) {
+		if (port !== instance.port) {
+			ports.push(port);
+		}
+	}
+	return ports;
+}
+
+/**
+ * Parses the published ports listed by `docker ps`, e.g. `0.0.0.0:4566->4566/tcp, 0.0.0.0:4510-4559->4510-4559/tcp`.
+ *
+ * @returns The host ports.
+ */
+export function parsePublishedPorts(ports: string): number[] {
+	const hostPorts = new Set<number>();
+	for (const match of ports.matchAll(/:(\d+)(?:-(\d+))?->/g)) {
+		const start = Number(match[1]);
+		const end = match[2] ? Number(match[2]) : start;
+		for (let port = start; port <= end; port++) {
+			hostPorts.add(port);
+		}
+	}
+	return [...hostPorts];
+}
+
+/**
+ * Parses the output of `lsof -nP -iTCP -sTCP:LISTEN -Fpcn`, where each process is
+ * listed as a `p<pid>` line and a `c<command>` line, followed by a `n<address>:<port>` line per socket.
+ */
+export function parseLsofOutput(stdout: string): Map<number, PortOwner> {
+	const owners = new Map<number, PortOwner>();
+	let owner: PortOwner | undefined;
+	for (const line of stdout.split("\n")) {
+		const field = line.charAt(0);
+		const value = line.slice(1).trim();
+		if (field === "p") {
+			owner = { kind: "process", pid: Number(value) };
+		} else if (field === "c" && owner?.kind === "process") {
+			owner.command = value;
+		} else if (field === "n" && owner) {
+			const port = Number(value.slice(value.lastIndexOf(":") + 1));
+			if (port && !owners.has(port)) {
+				owners.set(port, owner);
+			}
+		}
+	}
+	return owners;
+}
+
+/**
+ * Parses the listening sockets of `netstat -ano -p TCP` on Windows,
+ * e.g. `TCP    0.0.0.0:4566    0.0.0.0:0    LISTENING    1234`.
+ */
+export function parseNetstatOutput(stdout: string): Map<number, PortOwner> {
+	const owners = new Map<number, PortOwner>();
+	for (const line of stdout.split("\n")) {
+		const match = /^\s*TCP\s+\S*:(\d+)\s+\S+\s+LISTENING\s+(\d+)\s*$/i.exec(
+			line,
+		);
+		if (match && !owners.has(Number(match[1]))) {
+			owners.set(Number(match[1]), { kind: "process", pid: Number(match[2]) });
+		}
+	}
+	return owners;
+}
+
+/**
+ * Whether nothing listens on the given port of this machine.
+ */
+function isPortAvailable(port: number): Promise<boolean> {
+	return new Promise((resolve) => {
+		const server = createServer();
+		server.once("error", () => resolve(false));
+		server.once("listening", () => {
+			server.close(() => resolve(true));
+		});
+		server.listen(port, "0.0.0.0");
+	});
+}
+
+/**
+ * Returns the host ports published by each running container.
+ */
+async function readContainerPorts(
+	outputChannel: LogOutputChannel,
+): Promise<Map<number, PortOwner>> {
+	const owners = new Map<number, PortOwner>();
+	try {
+		const { stdout } = await exec(
+			`${getContainerCommand()} ps --format "{{.Names}}\t{{.Ports}}"`,
+			{ env: getDockerProcessEnvironment() },
+		);
+		for (const line of stdout.split("\n")) {
+			const [name, ports = ""] = line.split("\t");
+			for (const port of parsePublishedPorts(ports)) {
+				owners.set(port, { kind: "container", name: name.trim() });
+			}
+		}
+	} catch (error) {
+		outputChannel.warn(
+			`[port-conflicts]: Could not list the running containers: ${String(error)}`,
+		);
+	}
+	return owners;
+}
+
+/**
+ * Returns the process listening on each port of this machine.
+ */
+async function readProcessPorts(
+	outputChannel: LogOutputChannel,
+): Promise<Map<number, PortOwner>> {
+	try {
+		if (os.platform() !== "win32") {
+			const { stdout } = await exec("lsof -nP -iTCP -sTCP:LISTEN -Fpcn");
+			return parseLsofOutput(stdout);
+		}
+
+		const { stdout } = await exec("netstat -ano -p TCP");
+		const owners = parseNetstatOutput(stdout);
+		for (const owner of new Set(owners.values())) {
+			if (owner.kind !== "process") {
+				continue;
+			}
+			const { stdout: task } = await exec(
+				`tasklist /FI "PID eq ${owner.pid}" /FO CSV /NH`,
+			);
+			owner.command = /^"([^"]+)"/.exec(task.trim())?.[1];
+		}
+		return owners;
+	} catch (error) {
+		// `lsof` exits with an error when nothing listens, and may be missing.
+		outputChannel.trace(
+			`[port-conflicts]: Could not list the listening processes: ${String(error)}`,
+		);
+		return new Map();
+	}
+}
+
+/**
+ * Finds the ports the given instance needs that are already taken, and what holds them.
+ *
+ * Ports are probed on this machine, unless the Docker daemon is remote,
+ * in which case only the ports published by other containers are checked.
+ *
+ * @param environment - The start environment, see {@link getRequiredPorts}.
+ */
+export async function findPortConflicts(
+	instance: LocalStackInstance,
+	environment: Record<string, string>,
+	outputChannel: LogOutputChannel,
+): Promise<PortConflict[]> {
+	const requiredPorts = getRequiredPorts(instance, environment);
+
+	const containerPorts = await readContainerPorts(outputChannel);
+	const isRemote = getRemoteDockerHostname(getDockerHost()) !== undefined;
+
+	const takenPorts: number[] = [];
+	for (const port of requiredPorts) {
+		const owner = containerPorts.get(port);
+		if (owner?.kind === "container" && owner.name === instance.containerName) {
+			continue;
+		}
+		if (owner || (!isRemote && !(await isPortAvailable(port)))) {
+			takenPorts.push(port);
+		}
+	}
+	if (takenPorts.length === 0) {
+		return [];
+	}
+
+	const processPorts = takenPorts.every((port) => containerPorts.has(port))
+		? new Map<number, PortOwner>()
+		: await readProcessPorts(outputChannel);
+	return takenPorts.map((port) => ({
+		port,
+		owner: containerPorts.get(port) ?? processPorts.get(port),
+	}));
+}
+
+/**
+ * Describes a port owner for notifications, e.g. `container "my-db"` or `node (pid 1234)`.
+ */
+export function describePortOwner(owner: PortOwner | undefined): string {
+	if (!owner) {
+		return "an unknown process";
+	}
+	if (owner.kind === "container") {
+		return `container "${owner.name}"`;
+	}
+	return `${owner.command ?? "process"} (pid ${owner.pid})`;
+}
+
+/**
+ * Returns gateway ports whose services range is free as well, to move the given instance to.
+ */
+export async function findAvailableGatewayPorts(
+	instance: LocalStackInstance,
+	outputChannel: LogOutputChannel,
+	count = 3,
+): Promise<number[]> {
+	const available: number[] = [];
+	for (
+		let offset = 100;
+		offset <= 1000 && available.length < count;
+		offset += 100
+	) {
+		const candidate = { ...instance, port: instance.port + offset };
+		const conflicts = await findPortConflicts(candidate, {}, outputChannel);
+		if (conflicts.length === 0) {
+			available.push(candidate.port);
+		}
+	}
+	return available;
+}
+
+/**
+ * Stops the given containers, e.g. to free the ports they hold.
+ */
+export async function stopContainers(
+	containerNames: string[],
+	outputChannel: LogOutputChannel,
+) {
+	await spawn(getContainerCommand(), ["stop", ...containerNames], {
+		outputChannel,
+		outputLabel: "docker.stop",
+		environment: getDockerProcessEnvironment(),
+	});
+}
+
+/**
+ * Summarizes conflicts for notifications, grouping consecutive ports with the same owner,
+ * e.g. `4566 (container "my-db"), 4510-4512 (node (pid 1234))`.
+ */
+export function formatPortConflicts(conflicts: PortConflict[]): string {
+	const groups: { start: number; end: number; owner: string }[] = [];
+	for (const { port, owner } of [...conflicts].sort(
+		(a, b) => a.port - b.port,
+	)) {
+		const description = describePortOwner(owner);
+		const last = groups.at(-1);
+		if (last && last.end === port - 1 && last.owner === description) {
+			last.end = port;
+		} else {
+			groups.push({ start: port, end: port, owner: description });
+		}
+	}
+	return groups
+		.map(({ start, end, owner }) =>
+			start === end ? `${start} (${owner})` : `${start}-${end} (${owner})`,
+		)
+		.join(", ");
+}
@@ -0,0 +1,341 @@
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
+
+import { workspace } from "vscode";
+import type { Disposable, LogOutputChannel } from "vscode";
+
+import type { ContainerStatusTracker } from "./container-status.ts";
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { createEmitter } from "./emitter.ts";
+
+/**
+ * The resource usage of a single container, as reported by `docker stats`.
+ */
+export interface ContainerStats {
+	name: string;
+	cpuPercent: number;
+	/**
+	 * In bytes.
+	 */
+	memoryUsage: number;
+	/**
+	 * In bytes.
+	 */
+	memoryLimit: number;
+}
+
+/**
+ * The resource usage of a LocalStack container and the Lambda containers it started.
+ */
+export interface ResourceUsage {
+	cpuPercent: number;
+	/**
+	 * In bytes.
+	 */
+	memoryUsage: number;
+	/**
+	 * The memory limit of the LocalStack container, in bytes.
+	 * Unless set explicitly, this is the memory available to Docker.
+	 */
+	memoryLimit: number;
+	lambdaContainers: number;
+}
+
+export interface ResourceUsageTracker extends Disposable {
+	/**
+	 * Returns the latest usage, or `undefined` while the container isn't running.
+	 */
+	usage(): ResourceUsage | undefined;
+	onChange(callback: (usage: ResourceUsage | undefined) => void): Disposable;
+}
+
+const BYTE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1e3,
+	mb: 1e6,
+	gb: 1e9,
+	tb: 1e12,
+	kib: 2 ** 10,
+	mib: 2 ** 20,
+	gib: 2 ** 30,
+	tib: 2 ** 40,
+};
+
+/**
+ * Parses a size printed by `docker stats` (e.g. `1.5GiB`) or `podman stats` (e.g. `1.5GB`).
+ *
+ * @returns The size in bytes, or `undefined` if it can't be parsed.
+ */
+export function parseByteSize(text: string): number | undefined {
+	const match = /^([\d.]+)\s*([a-z]+)$/i.exec(text.trim());
+	const unit = match && BYTE_UNITS[match[2].toLowerCase()];
+	if (!match || !unit) {
+		return;
+	}
+	return Number(match[1]) * unit;
+}
+
+/**
+ * Formats a size in bytes for display, e.g. `512 MiB` or `1.5 GiB`.
+ */
+export function formatByteSize(bytes: number): string {
+	if (bytes >= 2 ** 30) {
+		return `${(bytes / 2 ** 30).toFixed(1)} GiB`;
+	}
+	return `${Math.round(bytes / 2 ** 20)} MiB`;
+}
+
+/**
+ * Parses a line printed by `docker stats --format "{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}"`,
+ * e.g. `localstack-main\t3.42%\t512MiB / 7.6GiB`.
+ *
+ * @returns The stats, or `undefined` if the line can't be parsed.
+ */
+export function parseStatsLine(line: string): ContainerStats | undefined {
+	const [name, cpu, memory] = line
+		// Streaming output clears the screen between refreshes.
+		// biome-ignore lint/suspicious/noControlCharactersInRegex: matches escape sequences
+		.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "")
+		.split("\t");
+	if (!name || !cpu || !memory) {
+		return;
+	}
+
+	const [usage = "", limit = ""] = memory.split("/");
+	const cpuPercent = Number.parseFloat(cpu);
+	const memoryUsage = parseByteSize(usage);
+	const memoryLimit = parseByteSize(limit);
+	if (
+		Number.isNaN(cpuPercent) ||
+		memoryUsage === undefined ||
+		memoryLimit === undefined
+	) {
+		return;
+	}
+	return { name: name.trim(), cpuPercent, memoryUsage, memoryLimit };
+}
+
+/**
+ * Whether a container was started by LocalStack to run a Lambda function,
+ * which LocalStack names after its own container, e.g. `localstack-main-lambda-my-function-1a2b3c`.
+ */
+export function isLambdaContainer(
+	containerName: string,
+	name: string,
+): boolean {
+	return name.startsWith(`${containerName}-lambda-`);
+}
+
+/**
+ * Sums up the usage of the LocalStack container and its Lambda containers.
+ *
+ * @returns The usage, or `undefined` if the LocalStack container isn't among the stats.
+ */
+export function aggregateResourceUsage(
+	containerName: string,
+	stats: ContainerStats[],
+): ResourceUsage | undefined {
+	const main = stats.find(({ name }) => name === containerName);
+	if (!main) {
+		return;
+	}
+
+	const lambdas = stats.filter(({ name }) =>
+		isLambdaContainer(containerName, name),
+	);
+	return {
+		cpuPercent: [main, ...lambdas].reduce(
+			(sum, { cpuPercent }) => sum + cpuPercent,
+			0,
+		),
+		memoryUsage: [main, ...lambdas].reduce(
+			(sum, { memoryUsage }) => sum + memoryUsage,
+			0,
+		),
+		memoryLimit: main.memoryLimit,
+		lambdaContainers: lambdas.length,
+	};
+}
+
+/**
+ * How long to wait for more lines before considering a `docker stats` refresh complete.
+ */
+const REFRESH_DELAY = 250;
+
+/**
+ * How long to wait before restarting `docker stats` after it ended, e.g. when the Docker daemon restarted.
+ */
+const RESTART_DELAY = 5_000;
+
+export interface ContainerStatsStream extends Disposable {
+	/**
+	 * Receives the stats of all running containers on every refresh.
+	 */
+	subscribe(callback: (stats: ContainerStats[]) => void): Disposable;
+}
+
+/**
+ * Streams `docker stats` as long as there are subscribers, so that all instances share a single process.
+ */
+export function createContainerStatsStream(
+	outputChannel: LogOutputChannel,
+): ContainerStatsStream {
+	const emitter = createEmitter<ContainerStats[]>(outputChannel);
+
+	let subscribers = 0;
+	let statsProcess: ChildProcess | undefined;
+	let refreshTimeout: NodeJS.Timeout | undefined;
+	let restartTimeout: NodeJS.Timeout | undefined;
+
+	const startStreaming = () => {
+		stopStreaming();
+
+		const child = spawn(
+			readContainerRuntimeConfiguration().binary,
+			["stats", "--format", "{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}"],
+			{
+				stdio: "pipe",
+				env: getDockerProcessEnvironment(),
+			},
+		);
+		statsProcess = child;
+
+		// Each refresh lists every running container once.
+		let refresh = new Map<string, ContainerStats>();
+		const flush = () => {
+			clearTimeout(refreshTimeout);
+			if (refresh.size > 0) {
+				void emitter.emit([...refresh.values()]);
+			}
+			refresh = new Map();
+		};
+
+		if (child.stdout) {
+			createInterface({ input: child.stdout }).on("line", (line) => {
+				const stats = parseStatsLine(line);
+				if (!stats) {
+					return;
+				}
+				if (refresh.has(stats.name)) {
+					flush();
+				}
+				refresh.set(stats.name, stats);
+				clearTimeout(refreshTimeout);
+				refreshTimeout = setTimeout(flush, REFRESH_DELAY);
+			});
+		}
+
+		child.on("error", (error) => {
+			outputChannel.error(`[resource-usage]: ${String(error)}`);
+		});
+
+		child.on("close", (code) => {
+			outputChannel.debug(
+				`[resource-usage]: Process ended (exit code = ${code})`,
+			);
+			// Only processes that weren't stopped on purpose are restarted.
+			if (statsProcess === child) {
+				statsProcess = undefined;
+				restartTimeout = setTimeout(startStreaming, RESTART_DELAY);
+			}
+		});
+	};
+
+	const stopStreaming = () => {
+		clearTimeout(refreshTimeout);
+		clearTimeout(restartTimeout);
+		const child = statsProcess;
+		statsProcess = undefined;
+		child?.kill();
+	};
+
+	const configurationListener = workspace.onDidChangeConfiguration((event) => {
+		const affectsRuntime =
+			event.affectsConfiguration("localstack.docker") ||
+			event.affectsConfiguration("localstack.containerRuntime");
+		if (affectsRuntime && subscribers > 0) {
+			startStreaming();
+		}
+	});
+
+	return {
+		subscribe(callback) {
+			const disposable = emitter.on(callback);
+			subscribers++;
+			if (subscribers === 1) {
+				startStreaming();
+			}
+
+			let disposed = false;
+			return {
+				dispose() {
+					if (disposed) {
+						return;
+					}
+					disposed = true;
+					disposable.dispose();
+					subscribers--;
+					if (subscribers === 0) {
+						stopStreaming();
+					}
+				},
+			};
+		},
+		dispose() {
+			configurationListener.dispose();
+			stopStreaming();
+		},
+	};
+}
+
+/**
+ * Follows the usage of the LocalStack container in the shared `docker stats` stream while it is running.
+ */
+export function createResourceUsageTracker(
+	containerStatusTracker: ContainerStatusTracker,
+	containerName: string,
+	statsStream: ContainerStatsStream,
+	outputChannel: LogOutputChannel,
+): ResourceUsageTracker {
+	const emitter = createEmitter<ResourceUsage | undefined>(outputChannel);
+
+	let usage: ResourceUsage | undefined;
+	let subscription: Disposable | undefined;
+
+	const updateUsage = (newUsage: ResourceUsage | undefined) => {
+		usage = newUsage;
+		void emitter.emit(usage);
+	};
+
+	const statusListener = containerStatusTracker.onChange((status) => {
+		if (status === "running") {
+			subscription ??= statsStream.subscribe((stats) => {
+				updateUsage(aggregateResourceUsage(containerName, stats));
+			});
+		} else if (status === "stopped") {
+			subscription?.dispose();
+			subscription = undefined;
+			updateUsage(undefined);
+		}
+	});
+
+	return {
+		usage() {
+			return usage;
+		},
+		onChange(callback) {
+			const disposable = emitter.on(callback);
+			callback(usage);
+			return disposable;
+		},
+		dispose() {
+			statusListener.dispose();
+			subscription?.dispose();
+			subscription = undefined;
+		},
+	};
+}
@@ -0,0 +1,101 @@
+import { isDeepStrictEqual } from "node:util";
+
+import type { Disposable, LogOutputChannel } from "vscode";
+
+import { createEmitter } from "./emitter.ts";
+import { fetchServicesHealth } from "./localstack-api.ts";
+import type { ServicesHealth } from "./localstack-api.ts";
+import type { LocalStackStatusTracker } from "./localstack-status.ts";
+import type { TimeTracker } from "./time-tracker.ts";
+
+const REFRESH_INTERVAL_MS = 5_000;
+
+export interface ServicesStatusTracker extends Disposable {
+	/**
+	 * The state of each service, or `undefined` if LocalStack is not running.
+	 */
+	services(): ServicesHealth | undefined;
+	onChange(
+		callback: (services: ServicesHealth | undefined) => void,
+	): Disposable;
+}
+
+/**
+ * Checks the state of the LocalStack services periodically, while LocalStack is running.
+ */
+export function createServicesStatusTracker(
+	localStackStatusTracker: LocalStackStatusTracker,
+	outputChannel: LogOutputChannel,
+	timeTracker: TimeTracker,
+	endpoint: () => string,
+): ServicesStatusTracker {
+	let services: ServicesHealth | undefined;
+	const emitter = createEmitter<ServicesHealth | undefined>(outputChannel);
+
+	let refreshTimeout: NodeJS.Timeout | undefined;
+	let isRunning = false;
+	/**
+	 * Incremented on every status change, so that a refresh in progress
+	 * doesn't reschedule itself after LocalStack restarted.
+	 */
+	let generation = 0;
+
+	const updateServices = (newServices: ServicesHealth | undefined) => {
+		if (!isDeepStrictEqual(services, newServices)) {
+			services = newServices;
+			void emitter.emit(services);
+		}
+	};
+
+	const refresh = async (current: number) => {
+		await timeTracker.run("services-status.health", async () => {
+			const newServices = await fetchServicesHealth(endpoint());
+			// LocalStack may have stopped in the meantime.
+			if (current === generation) {
+				updateServices(newServices);
+			}
+		});
+
+		if (current === generation) {
+			refreshTimeout = setTimeout(
+				() => void refresh(current),
+				REFRESH_INTERVAL_MS,
+			);
+		}
+	};
+
+	const statusListener = localStackStatusTracker.onChange((status) => {
+		if ((status === "running") === isRunning) {
+			return;
+		}
+
+		generation++;
+		clearTimeout(refreshTimeout);
+		refreshTimeout = undefined;
+		isRunning = status === "running";
+		if (isRunning) {
+			void refresh(generation);
+		} else {
+			updateServices(undefined);
+		}
+	});
+
+	return {
+		services() {
+			return services;
+		},
+		onChange(callback) {
+			const disposable = emitter.on(callback);
+			if (services) {
+				callback(services);
+			}
+			return disposable;
+		},
+		dispose() {
+			generation++;
+			isRunning = false;
+			clearTimeout(refreshTimeout);
+			statusListener.dispose();
+		},
+	};
+}
@@ -0,0 +1,138 @@
+import path from "node:path";
+
+import { Uri, workspace } from "vscode";
+import type { Disposable } from "vscode";
+
+/**
+ * Paths in Lambda containers mapped to paths in the workspace,
+ * e.g. `{ "/var/task": "${workspaceFolder}/lambda" }`.
+ */
+export type PathMappings = Record<string, string>;
+
+// biome-ignore lint/suspicious/noTemplateCurlyInString: VS Code variable
+const WORKSPACE_FOLDER_VARIABLE = "${workspaceFolder}";
+
+/**
+ * The directory Lambda functions are deployed to.
+ */
+const LAMBDA_TASK_ROOT = "/var/task/";
+
+export function readPathMappings(): PathMappings {
+	const config = workspace.getConfiguration("localstack.lambda");
+	return config.get<PathMappings>("pathMappings", {});
+}
+
+/**
+ * Maps a path in a Lambda container to a local path, using the longest matching mapping.
+ * `${workspaceFolder}` and relative local paths refer to the given workspace folder.
+ *
+ * @returns The local path, or `undefined` if no mapping matches.
+ */
+export function mapContainerPath(
+	containerPath: string,
+	mappings: PathMappings,
+	workspaceFolder?: string,
+): string | undefined {
+	const [containerPrefix, localPrefix] =
+		Object.entries(mappings)
+			.map(([from, to]) => [from.replace(/\/+$/, ""), to] as const)
+			.filter(
+				([from]) =>
+					containerPath === from || containerPath.startsWith(`${from}/`),
+			)
+			.sort(([a], [b]) => b.length - a.length)[0] ?? [];
+	if (containerPrefix === undefined || localPrefix === undefined) {
+		return;
+	}
+
+	const relativePath = containerPath
+		.slice(containerPrefix.length)
+		.split("/")
+		.filter(Boolean);
+	if (!workspaceFolder) {
+		const isRelative =
+			localPrefix.includes(WORKSPACE_FOLDER_VARIABLE) ||
+			!path.isAbsolute(localPrefix);
+		return isRelative ? undefined : path.join(localPrefix, ...relativePath);
+	}
+	return path.resolve(
+		workspaceFolder,
+		localPrefix.replaceAll(WORKSPACE_FOLDER_VARIABLE, workspaceFolder),
+		...relativePath,
+	);
+}
+
+export interface SourcePathResolver extends Disposable {
+	/**
+	 * Finds the workspace file of a path in a Lambda container, through the configured
+	 * path mappings or, for deployed code, a workspace file with the same relative path.
+	 */
+	resolve(containerPath: string): Promise<Uri | undefined>;
+}
+
+async function isFile(uri: Uri): Promise<boolean> {
+	try {
+		await workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export function createSourcePathResolver(): SourcePathResolver {
+	// Stack traces repeat the same few paths.
+	const cache = new Map<string, Promise<Uri | undefined>>();
+
+	const resolve = async (containerPath: string) => {
+		const workspaceFolder = workspace.workspaceFolders?.[0]?.uri.fsPath;
+		const mapped = mapContainerPath(
+			containerPath,
+			readPathMappings(),
+			workspaceFolder,
+		);
+		if (mapped) {
+			const uri = Uri.file(mapped);
+			return (await isFile(uri)) ? uri : undefined;
+		}
+
+		if (!containerPath.startsWith(LAMBDA_TASK_ROOT)) {
+			return;
+		}
+		const relativePath = containerPath.slice(LAMBDA_TASK_ROOT.length);
+		const files = await workspace.findFiles(
+			`**/${relativePath}`,
+			"**/{node_modules,.venv,.aws-sam,cdk.out}/**",
+			10,
+		);
+		// The closest match to the workspace root, e.g. `handler.py` before `tests/handler.py`.
+		return files.sort((a, b) => a.fsPath.length - b.fsPath.length)[0];
+	};
+
+	const listeners = [
+		workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration("localstack.lambda.pathMappings")) {
+				cache.clear();
+			}
+		}),
+		workspace.onDidCreateFiles(() => cache.clear()),
+		workspace.onDidDeleteFiles(() => cache.clear()),
+		workspace.onDidRenameFiles(() => cache.clear()),
+		workspace.onDidChangeWorkspaceFolders(() => cache.clear()),
+	];
+
+	return {
+		resolve(containerPath) {
+			let uri = cache.get(containerPath);
+			if (!uri) {
+				uri = resolve(containerPath);
+				cache.set(containerPath, uri);
+			}
+			return uri;
+		},
+		dispose() {
+			for (const listener of listeners) {
+				listener.dispose();
+			}
+		},
+	};
+}
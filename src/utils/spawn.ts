@@ -72,6 +72,22 @@ const logTypeToOutputChannelMethod: Record<LogType, LogOutputChannelMethods> = {
 	WARNING: "warn",
 };
 
+/**
+ * Appends a log line to the output channel, using the log level of the line if recognized.
+ */
+export function appendLogLine(
+	outputChannel: LogOutputChannel,
+	outputLabel: string,
+	rawLine: string,
+	defaultMethod: LogOutputChannelMethods,
+) {
+	const { line, logType } = parseLine(rawLine);
+	const method = logType
+		? logTypeToOutputChannelMethod[logType]
+		: defaultMethod;
+	outputChannel[method](`${outputLabel}${line.trim()}`);
+}
+
 export function pipeToLogOutputChannel(
 	child: childProcess.ChildProcess,
 	outputChannel: LogOutputChannel,
@@ -81,17 +97,13 @@ export function pipeToLogOutputChannel(
 		data: Buffer,
 		defaultMethod: LogOutputChannelMethods,
 	) => {
-		const output = data
+		const lines = data
 			.toString()
 			.split("\n")
 			.map((line) => line.trim())
-			.filter((line) => line !== "")
-			.map((line) => parseLine(line));
-		for (const { line, logType } of output) {
-			const method = logType
-				? logTypeToOutputChannelMethod[logType]
-				: defaultMethod;
-			outputChannel[method](`${outputLabel}${line.trim()}`);
+			.filter((line) => line !== "");
+		for (const line of lines) {
+			appendLogLine(outputChannel, outputLabel, line, defaultMethod);
 		}
 	};
 
@@ -138,6 +150,11 @@ export interface SpawnOptions {
 	outputChannel: LogOutputChannel;
 	cancellationToken?: CancellationToken;
 	environment?: Record<string, string | undefined> | undefined;
+	/**
+	 * Whether to run the command in a shell, `true` by default.
+	 * Disable it to pass arguments coming from settings or containers verbatim.
+	 */
+	shell?: boolean;
 	onStderr?: (data: Buffer, context: { abort: () => void }) => void;
 }
 
@@ -165,7 +182,7 @@ export const spawn = (
 			outputChannel.info(`${outputLabel}$ ${commandLine}`);
 
 			const spawnOptions: childProcess.SpawnOptions = {
-				shell: true,
+				shell: options.shell ?? true,
 				stdio: ["pipe", "pipe", "pipe"],
 				env: options.environment,
 			};
@@ -0,0 +1,178 @@
+/**
+ * A frame of a stack trace, pointing at a file in a Lambda container.
+ */
+export interface StackFrame {
+	/**
+	 * The path in the Lambda container, e.g. `/var/task/handler.py`.
+	 */
+	path: string;
+	/**
+	 * 1-based.
+	 */
+	line: number;
+	/**
+	 * 1-based, if known.
+	 */
+	column?: number;
+	/**
+	 * The range of the frame location in the text, e.g. to render it as a link.
+	 */
+	start: number;
+	end: number;
+}
+
+/**
+ * Python, e.g. `File "/var/task/handler.py", line 42, in handler`.
+ */
+const PYTHON_FRAME_REGEX = /File "(\/[^"]+)", line (\d+)/g;
+
+/**
+ * Node.js and most other runtimes, e.g. `at handler (/var/task/index.js:42:13)`
+ * or `at file:///var/task/index.mjs:42:13`.
+ */
+const PATH_FRAME_REGEX =
+	/(?:file:\/\/)?(\/[^\s:()"',]+\.\w+):(\d+)(?::(\d+))?/g;
+
+/**
+ * Finds the stack frames in a log line.
+ */
+export function findStackFrames(text: string): StackFrame[] {
+	const frames: StackFrame[] = [];
+	for (const match of text.matchAll(PYTHON_FRAME_REGEX)) {
+		const [location, path, line] = match;
+		const start = match.index + "File ".length;
+		frames.push({
+			path,
+			line: Number(line),
+			start,
+			end: match.index + location.length,
+		});
+	}
+	if (frames.length > 0) {
+		return frames;
+	}
+
+	for (const match of text.matchAll(PATH_FRAME_REGEX)) {
+		const [location, path, line, column] = match;
+		frames.push({
+			path,
+			line: Number(line),
+			column: column ? Number(column) : undefined,
+			start: match.index,
+			end: match.index + location.length,
+		});
+	}
+	return frames;
+}
+
+export interface StackTrace {
+	/**
+	 * The error, e.g. `ZeroDivisionError: division by zero`.
+	 */
+	message: string;
+	/**
+	 * Innermost first.
+	 */
+	frames: StackFrame[];
+}
+
+export interface StackTraceCollector {
+	/**
+	 * Adds the next log line.
+	 */
+	push(text: string): void;
+	/**
+	 * Completes the current stack trace, e.g. when no more lines are expected for now.
+	 */
+	flush(): void;
+}
+
+/**
+ * E.g. `ZeroDivisionError: division by zero` at the end of Python stack traces.
+ */
+const PYTHON_EXCEPTION_REGEX =
+	/(?:^|\s)([A-Za-z_][\w.]*(?:Error|Exception)(?::\s.*)?)$/;
+
+/**
+ * E.g. `{"errorType": "Error", "errorMessage": "boom", "trace": [...]}` logged by the Node.js runtime.
+ */
+const ERROR_MESSAGE_REGEX = /"errorMessage":\s*"((?:[^"\\]|\\.)*)"/;
+
+/**
+ * Python prints the source of each frame between frames, so the exception is searched
+ * for in a few more lines only.
+ */
+const MAX_PYTHON_TRAILING_LINES = 10;
+
+/**
+ * Collects the stack traces of Python (`Traceback ...`, frames, then the exception)
+ * and of Node.js (the error, then `at ...` frames) from log lines.
+ */
+export function createStackTraceCollector(
+	onTrace: (trace: StackTrace) => void,
+): StackTraceCollector {
+	let previous: string | undefined;
+	let header: string | undefined;
+	let frames: StackFrame[] = [];
+	let trailingLines = 0;
+
+	const isPython = () =>
+		header?.includes("Traceback (most recent call last)") ?? false;
+
+	const finish = (footer?: string) => {
+		if (frames.length > 0) {
+			const python = isPython();
+			onTrace({
+				message: (python ? footer : header) ?? header ?? footer ?? "",
+				// Python prints the innermost frame last.
+				frames: python ? frames.reverse() : frames,
+			});
+		}
+		header = undefined;
+		frames = [];
+		trailingLines = 0;
+	};
+
+	return {
+		push(text) {
+			const found = findStackFrames(text);
+			if (found.length > 0) {
+				const errorMessage = ERROR_MESSAGE_REGEX.exec(text)?.[1];
+				if (errorMessage !== undefined) {
+					finish();
+					frames = found;
+					header = errorMessage.replaceAll(/\\(.)/g, "$1");
+					finish();
+					return;
+				}
+				if (frames.length === 0) {
+					header = previous;
+				}
+				frames.push(...found);
+				trailingLines = 0;
+				return;
+			}
+
+			if (frames.length > 0) {
+				if (isPython()) {
+					const exception = PYTHON_EXCEPTION_REGEX.exec(text)?.[1];
+					if (exception) {
+						finish(exception);
+					} else if (++trailingLines > MAX_PYTHON_TRAILING_LINES) {
+						finish();
+					}
+					return;
+				}
+				// Frames of the runtime itself don't point at files, e.g. `at node:internal/...`.
+				if (/^at\s/.test(text)) {
+					return;
+				}
+				finish();
+			}
+			previous = text;
+		},
+		flush() {
+			finish();
+		},
+	};
+}
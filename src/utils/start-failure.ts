@@ -0,0 +1,252 @@
+import type { LogOutputChannel, MessageItem } from "vscode";
+import * as z from "zod/v4-mini";
+
+import {
+	getDockerProcessEnvironment,
+	readContainerRuntimeConfiguration,
+} from "./docker.ts";
+import { execFile } from "./exec.ts";
+import type { LocalStackInstance } from "./instances.ts";
+import { checkIsLicenseValid } from "./license.ts";
+
+export type StartFailureCategory =
+	| "port_in_use"
+	| "docker_unavailable"
+	| "image_missing"
+	| "invalid_license"
+	| "out_of_memory"
+	| "volume_permission"
+	| "unknown";
+
+/**
+ * The likely cause of a failed start, along with a suggested fix.
+ */
+export interface StartFailure {
+	category: StartFailureCategory;
+	/**
+	 * What went wrong, e.g. "The LocalStack ports are already in use."
+	 */
+	reason: string;
+	/**
+	 * How to fix it.
+	 */
+	suggestion: string;
+	actions: (MessageItem & { command: string; arguments?: unknown[] })[];
+}
+
+const VIEW_LOGS_ACTION = { title: "View Logs", command: "localstack.viewLogs" };
+
+const openSettingsAction = (query: string) => ({
+	title: "Open Settings",
+	command: "workbench.action.openSettings",
+	arguments: [query],
+});
+
+export interface StartFailureEvidence {
+	/**
+	 * The output of the start command and the last lines logged by the container.
+	 */
+	output: string;
+	/**
+	 * Whether the license is valid, `undefined` if unknown or if the image doesn't require one.
+	 */
+	isLicenseValid?: boolean;
+	/**
+	 * Whether the container was killed for using too much memory, `undefined` if unknown.
+	 */
+	isOomKilled?: boolean;
+}
+
+/**
+ * Classifies a failed start from the collected evidence.
+ *
+ * The most specific causes are checked first, since e.g. a Docker daemon that is not running
+ * also prevents the license from being checked.
+ */
+export function classifyStartFailure(
+	evidence: StartFailureEvidence,
+): StartFailure {
+	const { output } = evidence;
+
+	if (
+		/Cannot connect to the Docker daemon|Is the docker daemon running|error during connect|Docker could not be found|docker daemon is not running|permission denied while trying to connect to the Docker daemon/i.test(
+			output,
+		)
+	) {
+		return {
+			category: "docker_unavailable",
+			reason: "Docker is not running or not reachable.",
+			suggestion:
+				"Start Docker, or check the `localstack.docker.*` and `localstack.containerRuntime.*` settings.",
+			actions: [openSettingsAction("localstack.docker"), VIEW_LOGS_ACTION],
+		};
+	}
+
+	if (
+		/port is already allocated|address already in use|ports are not available|Only one usage of each socket address/i.test(
+			output,
+		)
+	) {
+		return {
+			category: "port_in_use",
+			reason: "The LocalStack ports are already in use.",
+			suggestion:
+				"Stop the process or container using them, or change the `localstack.endpoint.port` setting.",
+			actions: [
+				openSettingsAction("localstack.endpoint.port"),
+				VIEW_LOGS_ACTION,
+			],
+		};
+	}
+
+	if (
+		/No such image|pull access denied|manifest unknown|manifest for .* not found|repository does not exist/i.test(
+			output,
+		)
+	) {
+		return {
+			category: "image_missing",
+			reason: "The LocalStack image could not be found.",
+			suggestion:
+				"Check the `localstack.image.*` settings and pull the image again.",
+			actions: [
+				{
+					title: "Check for Image Updates",
+					command: "localstack.checkImageUpdates",
+				},
+				openSettingsAction("localstack.image"),
+			],
+		};
+	}
+
+	if (
+		evidence.isOomKilled ||
+		/OOMKilled|MemoryError|out of memory/i.test(output)
+	) {
+		return {
+			category: "out_of_memory",
+			reason: "LocalStack ran out of memory.",
+			suggestion:
+				"Increase the memory available to Docker, or limit the started services with `SERVICES` in a launch profile.",
+			actions: [VIEW_LOGS_ACTION],
+		};
+	}
+
+	if (
+		/(?:PermissionError|Permission denied|Operation not permitted).*(?:\/var\/lib\/localstack|volume)/i.test(
+			output,
+		) ||
+		/(?:\/var\/lib\/localstack|volume).*(?:PermissionError|Permission denied|Operation not permitted)/i.test(
+			output,
+		)
+	) {
+		return {
+			category: "volume_permission",
+			reason: "LocalStack cannot write to its volume directory.",
+			suggestion:
+				"Make sure the volume directory (`LOCALSTACK_VOLUME_DIR`) is writable by Docker, or choose another one in a launch profile.",
+			actions: [VIEW_LOGS_ACTION],
+		};
+	}
+
+	if (
+		evidence.isLicenseValid === false ||
+		/license (?:activation failed|is not valid|is invalid|has expired)|invalid auth token|No credentials were found/i.test(
+			output,
+		)
+	) {
+		return {
+			category: "invalid_license",
+			reason: "No valid LocalStack license found.",
+			suggestion: "Check your auth token and license.",
+			actions: [
+				{
+					title: "Go to License settings",
+					command: "localstack.openLicensePage",
+				},
+			],
+		};
+	}
+
+	return {
+		category: "unknown",
+		reason: "LocalStack failed to start.",
+		suggestion: "Check the logs for details.",
+		actions: [VIEW_LOGS_ACTION],
+	};
+}
+
+const ContainerStateSchema = z.object({
+	OOMKilled: z.boolean(),
+});
+
+/**
+ * Collects what the container left behind: whether it was killed for using too much memory, and its last logs.
+ *
+ * The container may have been removed already, in which case nothing is returned.
+ */
+async function inspectFailedContainer(
+	containerName: string,
+): Promise<{ isOomKilled?: boolean; logs: string }> {
+	const { binary } = readContainerRuntimeConfiguration();
+	const env = getDockerProcessEnvironment();
+
+	let isOomKilled: boolean | undefined;
+	try {
+		const { stdout } = await execFile(
+			binary,
+			["inspect", "--format", "{{json .State}}", containerName],
+			{ env },
+		);
+		const parsed = ContainerStateSchema.safeParse(JSON.parse(stdout));
+		isOomKilled = parsed.success ? parsed.data.OOMKilled : undefined;
+	} catch {
+		// The container doesn't exist anymore.
+	}
+
+	let logs = "";
+	try {
+		const { stdout, stderr } = await execFile(
+			binary,
+			["logs", "--tail", "100", containerName],
+			{ env },
+		);
+		logs = `${stdout}\n${stderr}`;
+	} catch {
+		// The container doesn't exist anymore.
+	}
+
+	return { isOomKilled, logs };
+}
+
+/**
+ * Whether the image requires a license, e.g. `localstack/localstack-pro:4.4`
+ * as opposed to the Community image `localstack/localstack`.
+ */
+function isProImage(image: string): boolean {
+	return /(?:^|\/)localstack-pro(?:[:@]|$)/.test(image);
+}
+
+/**
+ * Finds the likely cause of a failed start of the given instance.
+ *
+ * @param output - The output of the start command.
+ */
+export async function analyzeStartFailure(
+	instance: LocalStackInstance,
+	output: string,
+	error: unknown,
+	outputChannel: LogOutputChannel,
+): Promise<StartFailure> {
+	const [{ isOomKilled, logs }, isLicenseValid] = await Promise.all([
+		inspectFailedContainer(instance.containerName),
+		// The Community image runs without a license, so a missing one doesn't explain its failure.
+		isProImage(instance.image) ? checkIsLicenseValid(outputChannel) : undefined,
+	]);
+
+	return classifyStartFailure({
+		output: [String(error), output, logs].join("\n"),
+		isLicenseValid,
+		isOomKilled,
+	});
+}
@@ -0,0 +1,105 @@
+import { constants } from "node:fs";
+import { access } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { ThemeIcon } from "vscode";
+import type { TerminalOptions } from "vscode";
+
+import { CLI_PATHS } from "../constants.ts";
+
+import { LOCALSTACK_REGION } from "./configure-aws.ts";
+import { DEFAULT_INSTANCE, getInstanceAwsEndpoint } from "./instances.ts";
+import type { LocalStackInstance } from "./instances.ts";
+
+/**
+ * The wrappers that point the AWS CLI, the CDK and Terraform at LocalStack.
+ */
+const LOCAL_TOOLS = ["awslocal", "cdklocal", "tflocal"];
+
+/**
+ * The directories where pip, pipx and Homebrew install the {@link LOCAL_TOOLS},
+ * which may be missing from the `PATH` VS Code was started with.
+ */
+const TOOL_DIRECTORIES = [
+	...new Set(
+		CLI_PATHS.filter((cliPath) => path.isAbsolute(cliPath)).map((cliPath) =>
+			path.dirname(cliPath),
+		),
+	),
+];
+
+async function isExecutable(file: string): Promise<boolean> {
+	try {
+		await access(file, constants.X_OK);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Returns the directories containing one of the {@link LOCAL_TOOLS} that are missing from the `PATH`.
+ */
+async function findToolDirectories(): Promise<string[]> {
+	const pathDirectories = (process.env.PATH ?? "").split(path.delimiter);
+	const extensions = os.platform() === "win32" ? [".exe", ".cmd"] : [""];
+
+	const directories: string[] = [];
+	for (const directory of TOOL_DIRECTORIES) {
+		if (pathDirectories.includes(directory)) {
+			continue;
+		}
+		for (const tool of LOCAL_TOOLS) {
+			const candidates = extensions.map((extension) =>
+				path.join(directory, `${tool}${extension}`),
+			);
+			const found = await Promise.all(candidates.map(isExecutable));
+			if (found.includes(true)) {
+				directories.push(directory);
+				break;
+			}
+		}
+	}
+	return directories;
+}
+
+/**
+ * Returns the environment variables that point AWS tools at the given instance,
+ * through the "localstack" AWS profile written by `configureAwsProfiles`.
+ */
+export function getTerminalEnvironment(
+	instance: LocalStackInstance,
+): Record<string, string> {
+	return {
+		AWS_PROFILE: "localstack",
+		// Takes precedence over the endpoint of the profile, which targets the default instance.
+		AWS_ENDPOINT_URL: getInstanceAwsEndpoint(instance),
+		AWS_REGION: LOCALSTACK_REGION,
+	};
+}
+
+/**
+ * Returns the options of a terminal preconfigured for the given instance.
+ */
+export async function getTerminalOptions(
+	instance: LocalStackInstance,
+): Promise<TerminalOptions> {
+	const environment: Record<string, string> = getTerminalEnvironment(instance);
+
+	const toolDirectories = await findToolDirectories();
+	if (toolDirectories.length > 0) {
+		environment.PATH = [...toolDirectories, process.env.PATH ?? ""].join(
+			path.delimiter,
+		);
+	}
+
+	return {
+		name:
+			instance.name === DEFAULT_INSTANCE.name
+				? "LocalStack"
+				: `LocalStack (${instance.name})`,
+		iconPath: new ThemeIcon("localstack-logo"),
+		env: environment,
+	};
+}
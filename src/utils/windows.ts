@@ -0,0 +1,50 @@
+import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Checks whether a process is still alive, without sending it a signal.
+ */
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user.
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * Registers the current window in the given directory.
+ *
+ * Each window runs its own extension host process, so windows are tracked
+ * with one file per process id.
+ */
+export async function registerWindow(directory: string): Promise<void> {
+	await mkdir(directory, { recursive: true });
+	await writeFile(path.join(directory, String(process.pid)), "");
+}
+
+/**
+ * Unregisters the current window from the given directory.
+ *
+ * Entries left behind by crashed windows are cleaned up along the way.
+ *
+ * @returns Whether no other window is registered.
+ */
+export async function unregisterWindow(directory: string): Promise<boolean> {
+	await rm(path.join(directory, String(process.pid)), { force: true });
+
+	const entries = await readdir(directory).catch(() => []);
+	let otherWindows = 0;
+	for (const entry of entries) {
+		const pid = Number(entry);
+		if (Number.isInteger(pid) && isProcessAlive(pid)) {
+			otherWindows++;
+		} else {
+			await rm(path.join(directory, entry), { force: true });
+		}
+	}
+
+	return otherWindows === 0;
+}
@@ -0,0 +1,15 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import react from "@vitejs/plugin-react";
+import { defineConfig } from "vite";
+
+export default defineConfig({
+	envDir: path.dirname(fileURLToPath(import.meta.url)),
+	plugins: [react()],
+	root: path.join(import.meta.dirname, "src/log-viewer"),
+	build: {
+		outDir: "../../resources/log-viewer/dist",
+		emptyOutDir: true,
+	},
+});